@@ -1,9 +1,45 @@
+import { getBaseUrlFromEnv, normalizeBaseUrl, paginate } from '../ld-client/ld-client.ts';
+import { describeActor, getAuditLogEntry, toMilliseconds } from '../get-all-audit-log-entries/get-all-audit-log-entries.ts';
+import type { AuditLogEntry as DetailedAuditLogEntry } from '../get-all-audit-log-entries/get-all-audit-log-entries.ts';
+import { readAuditLogArchive } from '../sync-audit-log/sync-audit-log.ts';
+import { mergeProducers } from '../ld-client/merge.ts';
+import type { Producer } from '../ld-client/merge.ts';
+import type { Clause, Rule, SegmentRule, SegmentTarget, Target, Variation } from '../flag-model/flag-model.ts';
+import { writeRecords } from '../output-format/output-format.ts';
+import { matchesOperator } from '../flag-eval/flag-eval.ts';
+import { generateHTML } from './html.ts';
+
+interface EnvironmentVersion {
+  targets?: Target[];         // Individual targets for the user context kind
+  contextTargets?: Target[];
+  rules?: Rule[];
+  _site?: { href: string };
+}
+
+// The flag or segment before or after the change
+interface ResourceVersion {
+  environments?: {
+    [key: string]: EnvironmentVersion;
+  };
+  included?: string[];
+  excluded?: string[];
+  includedContexts?: SegmentTarget[];
+  excludedContexts?: SegmentTarget[];
+  rules?: SegmentRule[];
+  variations?: Variation[];
+  _site?: { href: string };
+}
+
 interface AuditLogEntry {
   _id: string;
   date: number;
   kind: string;
   name: string;
   description: string;
+  accesses?: Array<{
+    action: string;
+    resource: string;
+  }>;
   _links: {
     self: {
       href: string;
@@ -18,166 +54,440 @@ interface AuditLogEntry {
       type: string;
     };
   };
-  member: {
+  member?: {
     firstName: string;
     lastName: string;
     email: string;
   };
-  previousVersion?: {
-    environments: {
-      [key: string]: {
-        contextTargets: Array<{
-          contextKind: string;
-          values: string[];
-          variation: number;
-        }>;
-      };
-    };
+  token?: {
+    name: string;
   };
-  currentVersion?: {
-    environments: {
-      [key: string]: {
-        contextTargets: Array<{
-          contextKind: string;
-          values: string[];
-          variation: number;
-        }>;
-      };
-    };
+  previousVersion?: ResourceVersion;
+  currentVersion?: ResourceVersion;
+}
+
+// Which projects and environments to search; unset means all of them
+interface Scope {
+  project?: string;
+  environment?: string;
+}
+
+// Resource specs for the flags and segments in scope, e.g. "proj/my-project:env/*:flag/*"
+function resourceSpecs(scope: Scope): { flags: string; segments: string } {
+  const prefix = `proj/${scope.project ?? '*'}:env/${scope.environment ?? '*'}`;
+  return { flags: `${prefix}:flag/*`, segments: `${prefix}:segment/*` };
+}
+
+function getAuditLogEntries(apiToken: string, after: number, before: number, scope: Scope, baseUrl?: string): AsyncGenerator<AuditLogEntry> {
+  const specs = resourceSpecs(scope);
+  return paginate<AuditLogEntry>(apiToken, `/api/v2/auditlog?limit=20&after=${after}&before=${before}`, {
+    baseUrl,
+    apiVersion: 'beta',
+    method: 'POST',
+    body: [
+      {
+        "resources": [specs.flags],
+        "actions": ["updateTargets", "updateRules"],
+        "effect": "allow"
+      },
+      {
+        "resources": [specs.segments],
+        "actions": ["*"],
+        "effect": "allow"
+      }
+    ]
+  });
+}
+
+// Match a resource against a spec whose "*" stands for any key
+function matchesSpec(resource: string, spec: string): boolean {
+  const pattern = spec.split('*').map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('[^:]*');
+  return new RegExp(`^${pattern}$`).test(resource);
+}
+
+// Same filter as the policy the API listing uses: targeting and rule updates on flags in scope, and any change to segments in scope
+function isTargetingUpdate(entry: AuditLogEntry, scope: Scope): boolean {
+  const specs = resourceSpecs(scope);
+  return entry.accesses?.some(access =>
+    (['updateTargets', 'updateRules'].includes(access.action) && matchesSpec(access.resource, specs.flags)) ||
+    matchesSpec(access.resource, specs.segments)
+  ) ?? false;
+}
+
+// Read list entries from a local archive instead of the API
+async function* readAuditLogEntries(inputFile: string, after: number, before: number, scope: Scope): AsyncGenerator<AuditLogEntry> {
+  for await (const entry of readAuditLogArchive(inputFile, { after, before })) {
+    if (isTargetingUpdate(entry as unknown as AuditLogEntry, scope)) {
+      yield entry as unknown as AuditLogEntry;
+    }
+  }
+}
+
+// Audit log entries never change, so fetched details can be kept on disk indefinitely
+async function readCachedEntry(cacheDir: string, id: string): Promise<AuditLogEntry | null> {
+  try {
+    return JSON.parse(await Deno.readTextFile(`${cacheDir}/${id}.json`));
+  } catch (error) {
+    if (error instanceof Deno.errors.NotFound) {
+      return null;
+    }
+    throw error;
+  }
+}
+
+async function writeCachedEntry(cacheDir: string, entry: AuditLogEntry): Promise<void> {
+  // Write then rename, so an interrupted run never leaves a partial file behind
+  const path = `${cacheDir}/${entry._id}.json`;
+  await Deno.writeTextFile(`${path}.tmp`, JSON.stringify(entry));
+  await Deno.rename(`${path}.tmp`, path);
+}
+
+/**
+ * Fetch the detail of each list entry, `concurrency` at a time, reading from and
+ * filling the cache directory if one is given. Details are yielded as they arrive,
+ * not in list order.
+ */
+async function* getEntryDetails(
+  entries: AsyncIterable<AuditLogEntry>,
+  apiToken: string,
+  options: { concurrency: number; cacheDir?: string; baseUrl?: string },
+): AsyncGenerator<{ entry: AuditLogEntry; detail: AuditLogEntry }> {
+  if (options.cacheDir) {
+    await Deno.mkdir(options.cacheDir, { recursive: true });
+  }
+
+  // Workers share one iterator, so each list entry is fetched once
+  const iterator = entries[Symbol.asyncIterator]();
+  const worker: Producer<{ entry: AuditLogEntry; detail: AuditLogEntry }> = async (push, signal) => {
+    while (!signal.aborted) {
+      const next = await iterator.next();
+      if (next.done) return;
+      const entry = next.value;
+
+      let detail = options.cacheDir ? await readCachedEntry(options.cacheDir, entry._id) : null;
+      if (!detail) {
+        detail = await getAuditLogEntry(apiToken, entry._id, { baseUrl: options.baseUrl, signal }) as unknown as AuditLogEntry;
+        if (options.cacheDir) {
+          await writeCachedEntry(options.cacheDir, detail);
+        }
+      }
+      await push({ entry, detail });
+    }
   };
+
+  yield* mergeProducers(Array.from({ length: options.concurrency }, () => worker), {
+    bufferSize: options.concurrency * 2,
+  });
 }
 
-interface AuditLogResponse {
-  items: AuditLogEntry[];
-  _links: {
-    next?: {
-      href: string;
-    };
+interface SearchOptions extends Scope {
+  after?: number;        // Default: 30 days ago
+  before?: number;       // Default: now
+  inputFile?: string;    // Read list entries from an audit log export instead of the API
+  concurrency?: number;  // Entry details fetched at once (default: 5)
+  cacheDir?: string;     // Directory to cache entry details in
+  baseUrl?: string;      // Default: https://app.launchdarkly.com
+}
+
+export interface ContextChange {
+  date: Date;
+  contextKind: string;
+  contextKey: string;
+  resourceKind: 'flag' | 'segment';
+  flag: string;          // Flag key, or segment key for segment changes
+  flagName: string;
+  action: string;        // e.g. "added to", "removed from", "variation changed in"
+  via: string;           // e.g. "individual targets", "rule 2", "segment included list"
+  member: string;
+  project: string;
+  environment: string;
+  variations: {
+    previous: number[];
+    current: number[];
   };
+  variationNames: {      // The variations' names, or their values for unnamed variations
+    previous: string[];
+    current: string[];
+  };
+  siteLink: string | null;  // Path of the flag or segment in the LaunchDarkly UI, e.g. "/my-project/production/features/new-checkout"
+}
+
+export type ChangeFormat = 'tsv' | 'json' | 'ndjson' | 'csv' | 'html';
+
+const CHANGE_FORMATS: ChangeFormat[] = ['tsv', 'json', 'ndjson', 'csv', 'html'];
+
+// A clause that matches the context by key, e.g. `key in [a, b, c]` or `key startsWith "test-"`
+function clauseTargetsKey(clause: Clause, contextKind: string, contextKey: string): boolean {
+  return clause.attribute === 'key' && !clause.negate && (clause.contextKind ?? 'user') === contextKind &&
+    clause.values.some(value => matchesOperator(clause.op, contextKey, value));
 }
 
-async function getAuditLogEntry(id: string, apiToken: string): Promise<AuditLogEntry> {
-  const response = await fetch(`https://app.launchdarkly.com/api/v2/auditlog/${id}`, {
-    headers: {
-      'Authorization': apiToken,
-      'Content-Type': 'application/json',
-      'ld-api-version': 'beta'
+// Rules that target the context by key, by rule ID (or position when rules have no ID)
+function rulesTargetingKey(rules: Array<Rule | SegmentRule>, contextKind: string, contextKey: string) {
+  const matches = new Map<string, { index: number; variation: number | undefined }>();
+  rules.forEach((rule, index) => {
+    if (rule.clauses.some(clause => clauseTargetsKey(clause, contextKind, contextKey))) {
+      matches.set(rule._id ?? String(index), { index, variation: (rule as Rule).variation });
     }
   });
+  return matches;
+}
 
-  if (!response.ok) {
-    throw new Error(`Failed to fetch audit log entry: ${response.statusText}`);
-  }
+function describeAction(wasTargeted: boolean, isTargeted: boolean): string {
+  if (!wasTargeted && isTargeted) return 'added to';
+  if (wasTargeted && !isTargeted) return 'removed from';
+  return 'variation changed in';
+}
 
-  return response.json();
+// A variation by name, or by value when it has no name
+function describeVariation(variations: Variation[] | undefined, index: number): string {
+  const variation = variations?.[index];
+  if (!variation) return `variation ${index}`;
+  return variation.name ?? JSON.stringify(variation.value);
 }
 
-async function* getAuditLogEntries(apiToken: string, after: number, before: number): AsyncGenerator<AuditLogEntry> {
-  let url = `https://app.launchdarkly.com/api/v2/auditlog?limit=20&after=${after}&before=${before}`;
+// Changes to individual targets and key-based rules of one flag environment
+function diffFlagEnvironment(
+  previous: EnvironmentVersion | undefined,
+  current: EnvironmentVersion | undefined,
+  contextKind: string,
+  contextKey: string,
+): Array<Pick<ContextChange, 'action' | 'via' | 'variations'>> {
+  const changes: Array<Pick<ContextChange, 'action' | 'via' | 'variations'>> = [];
+
+  // Get all variations the context was served in the previous and current version. User targets
+  // are stored in `targets`; user entries in `contextTargets` only hold their position.
+  const targetedVariations = (environment: EnvironmentVersion | undefined) => {
+    const targets = [
+      ...(contextKind === 'user' ? environment?.targets ?? [] : []),
+      ...(environment?.contextTargets ?? []).filter(target => target.contextKind === contextKind),
+    ];
+    const variations = targets
+      .filter(target => (target.values ?? []).includes(contextKey))
+      .map(target => target.variation);
+    return [...new Set(variations)].sort();
+  };
+  const prevVariations = targetedVariations(previous);
+  const currVariations = targetedVariations(current);
+
+  // Check if there's any difference in targeting
+  if (!arraysEqual(prevVariations, currVariations)) {
+    changes.push({
+      action: describeAction(prevVariations.length > 0, currVariations.length > 0),
+      via: 'individual targets',
+      variations: { previous: prevVariations, current: currVariations },
+    });
+  }
 
-  while (url) {
-    const response = await fetch(url, {
-      headers: {
-        'Authorization': apiToken,
-        'Content-Type': 'application/json',
-        'ld-api-version': 'beta'
+  const prevRules = rulesTargetingKey(previous?.rules ?? [], contextKind, contextKey);
+  const currRules = rulesTargetingKey(current?.rules ?? [], contextKind, contextKey);
+  for (const id of new Set([...prevRules.keys(), ...currRules.keys()])) {
+    const prevRule = prevRules.get(id);
+    const currRule = currRules.get(id);
+    if (prevRule && currRule && prevRule.variation === currRule.variation) continue;
+
+    const toList = (variation: number | undefined) => variation === undefined ? [] : [variation];
+    changes.push({
+      action: describeAction(prevRule !== undefined, currRule !== undefined),
+      via: `rule ${(currRule ?? prevRule)!.index + 1}`,
+      variations: {
+        previous: prevRule ? toList(prevRule.variation) : [],
+        current: currRule ? toList(currRule.variation) : [],
       },
-      method: 'POST',
-      body: JSON.stringify([
-        {
-          "resources": ["proj/*:env/*:flag/*"],
-          "actions": ["updateTargets"],
-          "effect": "allow"
-        }
-      ])
     });
+  }
 
-    if (!response.ok) {
-        const res = await response.text();
-        console.log(res);
-      throw new Error(`Failed to fetch audit log: ${response.statusText}`);
-    }
+  return changes;
+}
+
+// Changes to a segment's included and excluded lists and key-based rules
+function diffSegment(
+  previous: ResourceVersion | undefined,
+  current: ResourceVersion | undefined,
+  contextKind: string,
+  contextKey: string,
+): Array<Pick<ContextChange, 'action' | 'via' | 'variations'>> {
+  const changes: Array<Pick<ContextChange, 'action' | 'via' | 'variations'>> = [];
+  const noVariations = { previous: [], current: [] };
+
+  // Older segments list user keys directly, newer ones list keys per context kind
+  const isListed = (version: ResourceVersion | undefined, list: 'included' | 'excluded') => {
+    const keys = contextKind === 'user' ? version?.[list] ?? [] : [];
+    const contexts = version?.[list === 'included' ? 'includedContexts' : 'excludedContexts'] ?? [];
+    return keys.includes(contextKey) ||
+      contexts.some(target => target.contextKind === contextKind && target.values.includes(contextKey));
+  };
 
-    const data: AuditLogResponse = await response.json();
-    
-    for (const item of data.items) {
-      yield item;
+  for (const list of ['included', 'excluded'] as const) {
+    const wasListed = isListed(previous, list);
+    const isNowListed = isListed(current, list);
+    if (wasListed !== isNowListed) {
+      changes.push({ action: describeAction(wasListed, isNowListed), via: `segment ${list} list`, variations: noVariations });
     }
+  }
 
-    url = data._links.next?.href ? `https://app.launchdarkly.com${data._links.next.href}` : '';
+  const prevRules = rulesTargetingKey(previous?.rules ?? [], contextKind, contextKey);
+  const currRules = rulesTargetingKey(current?.rules ?? [], contextKind, contextKey);
+  for (const id of new Set([...prevRules.keys(), ...currRules.keys()])) {
+    const prevRule = prevRules.get(id);
+    const currRule = currRules.get(id);
+    if (prevRule && currRule) continue;
+    changes.push({
+      action: describeAction(prevRule !== undefined, currRule !== undefined),
+      via: `segment rule ${(currRule ?? prevRule)!.index + 1}`,
+      variations: noVariations,
+    });
   }
+
+  return changes;
 }
 
-async function findContextChanges(contextKind: string, contextKey: string, apiToken: string) {
-  const now = Date.now();
-  const thirtyDaysAgo = now - (30 * 24 * 60 * 60 * 1000);
+// Project, environment and resource of an audit entry, e.g. "proj/p:env/production:segment/beta"
+function parseResource(entry: AuditLogEntry): { project: string; environment: string; kind: string; key: string } | null {
+  for (const access of entry.accesses ?? []) {
+    const match = access.resource.match(/^proj\/([^:]+):env\/([^:]+):(flag|segment)\/(.+)$/);
+    if (match) {
+      return { project: match[1], environment: match[2], kind: match[3], key: match[4] };
+    }
+  }
+  return null;
+}
+
+async function findContextChanges(contextKind: string, contextKeys: string[], apiToken: string, options: SearchOptions = {}) {
+  const before = options.before ?? Date.now();
+  const after = options.after ?? before - (30 * 24 * 60 * 60 * 1000);
   
-  const changes: Array<{
-    date: Date;
-    flag: string;
-    flagName: string;
-    action: string;
-    member: string;
-    project: string;
-    environment: string;
-    variations: {
-      previous: number[];
-      current: number[];
-    };
-  }> = [];
+  const changes: ContextChange[] = [];
+
+  const entries = options.inputFile
+    ? readAuditLogEntries(options.inputFile, after, before, options)
+    : getAuditLogEntries(apiToken, after, before, options, options.baseUrl);
+
+  const details = getEntryDetails(entries, apiToken, {
+    concurrency: options.concurrency ?? 5,
+    cacheDir: options.cacheDir,
+    baseUrl: options.baseUrl,
+  });
+
+  for await (const { entry, detail: detailedEntry } of details) {
+    const resource = parseResource(detailedEntry);
+    const member = describeActor(detailedEntry as unknown as DetailedAuditLogEntry);
+
+    if (resource?.kind === 'segment') {
+      for (const contextKey of contextKeys) {
+        for (const change of diffSegment(detailedEntry.previousVersion, detailedEntry.currentVersion, contextKind, contextKey)) {
+          changes.push({
+            date: new Date(entry.date),
+            contextKind,
+            contextKey,
+            resourceKind: 'segment',
+            flag: resource.key,
+            flagName: entry.name,
+            project: resource.project,
+            environment: resource.environment,
+            member,
+            siteLink: (detailedEntry.currentVersion ?? detailedEntry.previousVersion)?._site?.href ?? null,
+            variationNames: { previous: [], current: [] },
+            ...change,
+          });
+        }
+      }
+      continue;
+    }
+
+    const canonicalLink = detailedEntry._links.canonical.href;
+    const [project, flag] = canonicalLink.split('/').slice(-2);
 
-  for await (const entry of getAuditLogEntries(apiToken, thirtyDaysAgo, now)) {
-    const detailedEntry = await getAuditLogEntry(entry._id, apiToken);
-    
     // Check all environments in both versions
     for (const envName in detailedEntry.currentVersion?.environments) {
-      const prevTargets = detailedEntry.previousVersion?.environments[envName]?.contextTargets || [];
-      const currTargets = detailedEntry.currentVersion?.environments[envName]?.contextTargets || [];
-
-      // Get all variations the context was served in previous version
-      const prevVariations = prevTargets
-        .filter(target => target.contextKind === contextKind && target.values.includes(contextKey))
-        .map(target => target.variation);
-
-      // Get all variations the context is served in current version
-      const currVariations = currTargets
-        .filter(target => target.contextKind === contextKind && target.values.includes(contextKey))
-        .map(target => target.variation);
-
-      // Check if there's any difference in targeting
-      const wasTargeted = prevVariations.length > 0;
-      const isTargeted = currVariations.length > 0;
-      const variationsChanged = !arraysEqual(prevVariations.sort(), currVariations.sort());
-
-      if (wasTargeted !== isTargeted || variationsChanged) {
-        let action: string;
-        if (!wasTargeted && isTargeted) {
-          action = 'added to';
-        } else if (wasTargeted && !isTargeted) {
-          action = 'removed from';
-        } else {
-          action = 'variation changed in';
+      // The entry covers the whole flag, so skip the environments out of scope
+      if (options.environment && envName !== options.environment) continue;
+
+      const previous = detailedEntry.previousVersion?.environments?.[envName];
+      const current = detailedEntry.currentVersion?.environments?.[envName];
+      const siteLink = current?._site?.href ?? detailedEntry.currentVersion?._site?.href ?? null;
+
+      for (const contextKey of contextKeys) {
+        for (const change of diffFlagEnvironment(previous, current, contextKind, contextKey)) {
+          changes.push({
+            date: new Date(entry.date),
+            contextKind,
+            contextKey,
+            resourceKind: 'flag',
+            flag,
+            flagName: entry.name,
+            project,
+            environment: envName,
+            member,
+            siteLink,
+            variationNames: {
+              previous: change.variations.previous.map(index => describeVariation(detailedEntry.previousVersion?.variations, index)),
+              current: change.variations.current.map(index => describeVariation(detailedEntry.currentVersion?.variations, index)),
+            },
+            ...change,
+          });
         }
-        const canonicalLink = detailedEntry._links.canonical.href;
-        const [project, flag] = canonicalLink.split('/').slice(-2);
-        changes.push({
-          date: new Date(entry.date),
-          flag: flag,
-          flagName: entry.name,
-          project: project,
-          action,
-          environment: envName,
-          member: `${entry.member.firstName} ${entry.member.lastName} (${entry.member.email})`,
-          variations: {
-            previous: prevVariations,
-            current: currVariations
-          }
-        });
       }
     }
   }
 
-  return changes;
+  // Details arrive out of order, so restore the newest-first order of the audit log
+  return changes.sort((a, b) => b.date.getTime() - a.date.getTime());
+}
+
+const RECORD_FIELDS = [
+  'date', 'contextKind', 'contextKey', 'project', 'environment', 'flag', 'flagName',
+  'action', 'via', 'member', 'previousVariations', 'currentVariations',
+  'previousVariationIndices', 'currentVariationIndices', 'url',
+];
+
+// Flat record of a change for JSON, NDJSON and CSV output
+function toRecord(change: ContextChange, baseUrl: string): Record<string, unknown> {
+  return {
+    date: change.date.toISOString(),
+    contextKind: change.contextKind,
+    contextKey: change.contextKey,
+    project: change.project,
+    environment: change.environment,
+    flag: change.flag,
+    flagName: change.flagName,
+    action: change.action,
+    via: change.via,
+    member: change.member,
+    previousVariations: change.variationNames.previous,
+    currentVariations: change.variationNames.current,
+    previousVariationIndices: change.variations.previous,
+    currentVariationIndices: change.variations.current,
+    url: change.siteLink ? baseUrl + change.siteLink : null,
+  };
+}
+
+function printTsv(changes: ContextChange[]) {
+  if (changes.length === 0) {
+    console.log("No changes found");
+    return;
+  }
+
+  // Print header
+  console.log("date\tcontext key\tproject\tenvironment\tflag\tflag name\taction\tvia\tmember\tprevious variations\tcurrent variations");
+
+  // Print changes, keeping cells on one line
+  const cell = (value: string) => value.replace(/[\t\r\n]+/g, ' ');
+  changes.forEach(change => {
+    console.log([
+      change.date.toISOString(),
+      change.contextKey,
+      change.project,
+      change.environment,
+      change.flag,
+      change.flagName,
+      change.action,
+      change.via,
+      change.member,
+      change.variationNames.previous.join(',') || '-',
+      change.variationNames.current.join(',') || '-'
+    ].map(cell).join('\t'));
+  });
 }
 
 // Helper function to compare arrays
@@ -197,36 +507,110 @@ if (import.meta.main) {
     Deno.exit(1);
   }
 
-  const args = Deno.args;
-  if (args.length !== 2) {
-    console.error("Usage: deno run --allow-net --allow-env changes-by-context-key.ts <contextKind> <contextKey>");
+  const usage = "Usage: deno run --allow-net --allow-env --allow-read changes-by-context-key.ts <contextKind> [<contextKey>...] " +
+    "[--keys-file <file>] [--after <date>] [--before <date>] [--input <audit-log.ndjson>] [--concurrency <num>] [--cache-dir <dir>] " +
+    "[--project <key>] [--env <key>] [--format tsv|json|ndjson|csv|html] [--base-url <url>]";
+
+  const args: string[] = [];
+  const options: SearchOptions = {};
+  let baseUrl = getBaseUrlFromEnv();
+  let keysFile: string | undefined;
+  let format: ChangeFormat = 'tsv';
+
+  for (let i = 0; i < Deno.args.length; i++) {
+    const arg = Deno.args[i];
+    if (!arg.startsWith('--')) {
+      args.push(arg);
+      continue;
+    }
+
+    const value = Deno.args[i + 1];
+    try {
+      if (!value || value.startsWith('--')) {
+        throw new Error(`Missing value for ${arg}`);
+      }
+      switch (arg) {
+        case '--after':
+          options.after = toMilliseconds(value);
+          break;
+        case '--before':
+          options.before = toMilliseconds(value);
+          break;
+        case '--input':
+          options.inputFile = value;
+          break;
+        case '--concurrency':
+          options.concurrency = parseInt(value);
+          if (isNaN(options.concurrency) || options.concurrency < 1) {
+            throw new Error('--concurrency must be a positive integer');
+          }
+          break;
+        case '--cache-dir':
+          options.cacheDir = value;
+          break;
+        case '--keys-file':
+          keysFile = value;
+          break;
+        case '--project':
+          options.project = value;
+          break;
+        case '--env':
+          options.environment = value;
+          break;
+        case '--base-url':
+          baseUrl = normalizeBaseUrl(value);
+          break;
+        case '--format':
+          if (!CHANGE_FORMATS.includes(value as ChangeFormat)) {
+            throw new Error(`--format must be one of: ${CHANGE_FORMATS.join(', ')}`);
+          }
+          format = value as ChangeFormat;
+          break;
+        default:
+          throw new Error(`Unknown argument ${arg}`);
+      }
+    } catch (error) {
+      console.error(`Error: ${(error as Error).message}`);
+      Deno.exit(1);
+    }
+    i++; // Skip the value in the next iteration
+  }
+
+  const [contextKind, ...contextKeys] = args;
+  if (keysFile) {
+    try {
+      // One key per line; blank lines and # comments are ignored
+      const lines = (await Deno.readTextFile(keysFile)).split('\n').map(line => line.trim());
+      contextKeys.push(...lines.filter(line => line && !line.startsWith('#')));
+    } catch (error) {
+      console.error(`Error: Could not read ${keysFile}: ${(error as Error).message}`);
+      Deno.exit(1);
+    }
+  }
+
+  if (!contextKind || contextKeys.length === 0) {
+    console.error(usage);
+    Deno.exit(1);
+  }
+
+  if (options.after !== undefined && options.before !== undefined && options.after > options.before) {
+    console.error("Error: --after must be earlier than --before");
     Deno.exit(1);
   }
 
-  const [contextKind, contextKey] = args;
-  
   //console.log(`Searching for changes related to ${contextKind}:${contextKey}...`);
   
   try {
-    const changes = await findContextChanges(contextKind, contextKey, apiToken);
-    
-    if (changes.length === 0) {
-      console.log("No changes found");
+    const changes = await findContextChanges(contextKind, [...new Set(contextKeys)], apiToken, { ...options, baseUrl });
+
+    if (format === 'tsv') {
+      printTsv(changes);
+    } else if (format === 'html') {
+      console.log(generateHTML(changes, { contextKind, contextKeys, baseUrl }));
     } else {
-      // Print header
-      console.log("date\tproject\tenvironment\tflag\tprevious variations\tcurrent variations");
-      
-      // Print changes
-      changes.forEach(change => {
-        console.log([
-          change.date.toISOString(),
-          change.project,
-          change.environment,
-          change.flag,
-          change.variations.previous.join(',') || '-',
-          change.variations.current.join(',') || '-'
-        ].join('\t'));
-      });
+      await writeRecords((async function* () {
+        yield* changes.map(change => toRecord(change, baseUrl));
+      })(), { format, fields: RECORD_FIELDS });
     }
   } catch (error) {
     console.error("Error:", error);
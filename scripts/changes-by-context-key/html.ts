@@ -0,0 +1,208 @@
+import type { ContextChange } from './changes-by-context-key.ts';
+
+export interface HtmlOptions {
+  contextKind: string;
+  contextKeys: string[];
+  baseUrl: string;
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+function formatVariations(variations: string[]): string {
+  return variations.length > 0 ? variations.join(', ') : '–';
+}
+
+function renderChange(change: ContextChange): string {
+  const date = change.date.toISOString();
+  return `
+          <tr>
+            <td><time datetime="${date}">${date.replace('T', ' ').replace(/\.\d+Z$/, '')}</time></td>
+            <td class="key">${escapeHtml(change.contextKey)}</td>
+            <td><span class="badge">${escapeHtml(change.environment)}</span></td>
+            <td>${escapeHtml(change.action)}</td>
+            <td>${escapeHtml(change.via)}</td>
+            <td class="variations">${escapeHtml(formatVariations(change.variationNames.previous))} → ${escapeHtml(formatVariations(change.variationNames.current))}</td>
+            <td>${escapeHtml(change.member)}</td>
+          </tr>`;
+}
+
+// One section per flag or segment, newest change first
+function renderGroup(changes: ContextChange[], baseUrl: string): string {
+  const [first] = changes;
+  const siteLink = changes.find(change => change.siteLink)?.siteLink;
+  const name = escapeHtml(first.flagName || first.flag);
+  const title = siteLink ? `<a href="${escapeHtml(baseUrl + siteLink)}">${name}</a>` : name;
+
+  return `
+    <section class="flag">
+      <h2>${title} <span class="badge">${first.resourceKind}</span></h2>
+      <div class="flag-key">${escapeHtml(first.project)} / ${escapeHtml(first.flag)} · ${changes.length} ${changes.length === 1 ? 'change' : 'changes'}</div>
+      <table>
+        <thead>
+          <tr>
+            <th>Date (UTC)</th>
+            <th>Context</th>
+            <th>Environment</th>
+            <th>Action</th>
+            <th>Via</th>
+            <th>Variations</th>
+            <th>Member</th>
+          </tr>
+        </thead>
+        <tbody>${changes.map(renderChange).join('')}
+        </tbody>
+      </table>
+    </section>`;
+}
+
+/**
+ * Render the changes as a standalone HTML page, grouped by flag
+ */
+export function generateHTML(changes: ContextChange[], options: HtmlOptions): string {
+  const groups = new Map<string, ContextChange[]>();
+  for (const change of changes) {
+    const key = `${change.project}/${change.resourceKind}/${change.flag}`;
+    const group = groups.get(key);
+    if (group) {
+      group.push(change);
+    } else {
+      groups.set(key, [change]);
+    }
+  }
+
+  const contexts = options.contextKeys.length === 1
+    ? `${options.contextKind} ${options.contextKeys[0]}`
+    : `${options.contextKeys.length} ${options.contextKind} contexts`;
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>Changes for ${escapeHtml(contexts)}</title>
+  <style>
+    * {
+      margin: 0;
+      padding: 0;
+      box-sizing: border-box;
+    }
+
+    body {
+      font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, Oxygen, Ubuntu, Cantarell, sans-serif;
+      background: #f5f5fa;
+      color: #222;
+    }
+
+    header {
+      background: linear-gradient(135deg, #667eea 0%, #764ba2 100%);
+      color: white;
+      padding: 40px 20px;
+      text-align: center;
+    }
+
+    header h1 {
+      font-size: 2rem;
+      font-weight: 900;
+      margin-bottom: 0.5rem;
+    }
+
+    header p {
+      opacity: 0.85;
+    }
+
+    .container {
+      max-width: 1100px;
+      margin: 0 auto;
+      padding: 32px 20px;
+    }
+
+    .flag {
+      background: white;
+      border-radius: 12px;
+      padding: 20px;
+      margin-bottom: 24px;
+      box-shadow: 0 2px 8px rgba(0, 0, 0, 0.06);
+      overflow-x: auto;
+    }
+
+    .flag h2 {
+      font-size: 1.3rem;
+    }
+
+    .flag h2 a {
+      color: #764ba2;
+      text-decoration: none;
+    }
+
+    .flag h2 a:hover {
+      text-decoration: underline;
+    }
+
+    .flag-key {
+      font-family: 'SF Mono', Menlo, Consolas, monospace;
+      font-size: 0.85rem;
+      color: #666;
+      margin: 4px 0 16px;
+    }
+
+    table {
+      width: 100%;
+      border-collapse: collapse;
+      font-size: 0.9rem;
+    }
+
+    th {
+      text-align: left;
+      color: #666;
+      font-weight: 600;
+      border-bottom: 2px solid #eee8f8;
+      padding: 6px 8px;
+    }
+
+    td {
+      border-bottom: 1px solid #f0f0f5;
+      padding: 6px 8px;
+      vertical-align: top;
+    }
+
+    .key, .variations, time {
+      font-family: 'SF Mono', Menlo, Consolas, monospace;
+      font-size: 0.85rem;
+      white-space: nowrap;
+    }
+
+    .badge {
+      background: #eee8f8;
+      color: #764ba2;
+      border-radius: 6px;
+      padding: 2px 8px;
+      font-size: 0.8rem;
+      font-weight: 600;
+    }
+
+    .empty {
+      text-align: center;
+      color: #888;
+      padding: 48px 0;
+    }
+  </style>
+</head>
+<body>
+  <header>
+    <h1>Changes for ${escapeHtml(contexts)}</h1>
+    <p>${changes.length.toLocaleString()} changes to ${groups.size.toLocaleString()} flags and segments</p>
+  </header>
+
+  <div class="container">
+    ${changes.length === 0 ? '<div class="empty">No changes found</div>' : ''}${[...groups.values()].map(group => renderGroup(group, options.baseUrl)).join('\n')}
+  </div>
+</body>
+</html>`;
+}
@@ -1,6 +1,8 @@
 #!/usr/bin/env -S deno run --allow-net --allow-env --allow-read
 
 import { getAllAuditLogEntriesParallel } from "../get-all-audit-log-entries/get-all-audit-log-entries.ts";
+import { getJson, normalizeBaseUrl, paginate } from "../ld-client/ld-client.ts";
+import { readNdjson } from "../output-format/output-format.ts";
 
 // ============================================================================
 // Type Definitions
@@ -185,22 +187,7 @@ export interface ChronicleReport {
 // ============================================================================
 
 async function getCallerIdentity(apiKey: string, baseUrl: string): Promise<CallerIdentity> {
-    const url = new URL("/api/v2/caller-identity", baseUrl);
-
-    const response = await fetch(url, {
-        headers: {
-            "Authorization": apiKey,
-            "Content-Type": "application/json",
-        },
-    });
-
-    if (!response.ok) {
-        throw new Error(
-            `Failed to get caller identity: ${response.status} ${response.statusText}`,
-        );
-    }
-
-    const data = await response.json();
+    const data = await getJson<Record<string, string>>(apiKey, "/api/v2/caller-identity", { baseUrl });
     // The API returns memberId field which we need
     return {
         _id: data.memberId,
@@ -209,65 +196,26 @@ async function getCallerIdentity(apiKey: string, baseUrl: string): Promise<Calle
     };
 }
 
-async function getMemberDetails(
+function getMemberDetails(
     apiKey: string,
     memberId: string,
     baseUrl: string,
 ): Promise<MemberDetails> {
-    const url = new URL(`/api/v2/members/${memberId}`, baseUrl);
-
-    const response = await fetch(url, {
-        headers: {
-            "Authorization": apiKey,
-            "Content-Type": "application/json",
-        },
-    });
-
-    if (!response.ok) {
-        const errorText = await response.text();
-        throw new Error(
-            `Failed to get member details for ${memberId}: ${response.status} ${response.statusText} - ${errorText}`,
-        );
-    }
-
-    return await response.json();
+    return getJson<MemberDetails>(apiKey, `/api/v2/members/${memberId}`, { baseUrl });
 }
 
 async function getAllMembers(apiKey: string, baseUrl: string): Promise<MemberDetails[]> {
     const members: MemberDetails[] = [];
-    let nextUrl: string | null = "/api/v2/members?limit=100";
-
-    while (nextUrl) {
-        const url = new URL(nextUrl, baseUrl);
-        const response = await fetch(url, {
-            headers: {
-                "Authorization": apiKey,
-                "Content-Type": "application/json",
-            },
-        });
-
-        if (!response.ok) {
-            throw new Error(
-                `Failed to fetch members: ${response.status} ${response.statusText}`,
-            );
-        }
-
-        const data = await response.json();
-
-        // Add members from this page
-        if (data.items && Array.isArray(data.items)) {
-            for (const member of data.items) {
-                members.push({
-                    _id: member._id,
-                    email: member.email,
-                    firstName: member.firstName || "",
-                    lastName: member.lastName || "",
-                });
-            }
-        }
 
-        // Check for next page
-        nextUrl = data._links?.next?.href || null;
+    for await (
+        const member of paginate<MemberDetails>(apiKey, "/api/v2/members?limit=100", { baseUrl })
+    ) {
+        members.push({
+            _id: member._id,
+            email: member.email,
+            firstName: member.firstName || "",
+            lastName: member.lastName || "",
+        });
     }
 
     return members;
@@ -277,44 +225,39 @@ async function getAllMembers(apiKey: string, baseUrl: string): Promise<MemberDet
 // Input Processing Functions
 // ============================================================================
 
+function getYearRange(year: number): { after: number; before: number } {
+    return {
+        // Start of year (Jan 1 00:00:00 UTC)
+        after: new Date(Date.UTC(year, 0, 1, 0, 0, 0, 0)).getTime(),
+        // End of year (Dec 31 23:59:59 UTC)
+        before: new Date(Date.UTC(year, 11, 31, 23, 59, 59, 999)).getTime(),
+    };
+}
+
+/**
+ * Read audit log entries from a JSONL file, such as an export or a sync-audit-log archive.
+ * With a year, entries outside it are skipped (and counted), so multi-year archives can be used directly.
+ */
 async function* readAuditLogFromFile(
     filePath: string,
+    year?: number,
 ): AsyncGenerator<AuditLogEntry> {
-    const file = await Deno.open(filePath, { read: true });
-    const decoder = new TextDecoder();
-    let buffer = "";
+    const range = year !== undefined ? getYearRange(year) : undefined;
+    let skipped = 0;
 
-    try {
-        for await (const chunk of file.readable) {
-            buffer += decoder.decode(chunk, { stream: true });
-            const lines = buffer.split("\n");
-            buffer = lines.pop() || "";
-
-            for (const line of lines) {
-                if (line.trim()) {
-                    try {
-                        yield JSON.parse(line);
-                    } catch (error) {
-                        console.error(`Failed to parse line: ${error.message}`);
-                    }
-                }
-            }
+    const entries = readNdjson<AuditLogEntry>(filePath, {
+        onInvalidLine: (message) => console.error(`Failed to parse line: ${message}`),
+    });
+    for await (const entry of entries) {
+        if (!range || (entry.date >= range.after && entry.date <= range.before)) {
+            yield entry;
+        } else {
+            skipped++;
         }
+    }
 
-        // Process remaining buffer
-        if (buffer.trim()) {
-            try {
-                yield JSON.parse(buffer);
-            } catch (error) {
-                console.error(`Failed to parse line: ${error.message}`);
-            }
-        }
-    } finally {
-        try {
-            file.close();
-        } catch {
-            // File may already be closed, ignore
-        }
+    if (skipped > 0) {
+        console.error(`Skipped ${skipped.toLocaleString()} entries from ${filePath} outside ${year}`);
     }
 }
 
@@ -324,11 +267,7 @@ async function* fetchAuditLogFromAPI(
     parallelChunks = 10,
     baseUrl = "https://app.launchdarkly.com",
 ): AsyncGenerator<AuditLogEntry> {
-    // Calculate start of year (Jan 1 00:00:00 UTC)
-    const startOfYear = new Date(Date.UTC(year, 0, 1, 0, 0, 0, 0)).getTime();
-    // Calculate end of year (Dec 31 23:59:59 UTC)
-    const endOfYear = new Date(Date.UTC(year, 11, 31, 23, 59, 59, 999))
-        .getTime();
+    const { after: startOfYear, before: endOfYear } = getYearRange(year);
 
     for await (
         const entry of getAllAuditLogEntriesParallel(apiKey, {
@@ -2166,7 +2105,7 @@ export async function* generateAllMemberReports(
     const memberCache = new Map<string, MemberDetails>();
 
     const entrySource = inputFile
-        ? readAuditLogFromFile(inputFile)
+        ? readAuditLogFromFile(inputFile, year)
         : fetchAuditLogFromAPI(apiKey, targetYear, parallelChunks, baseUrl);
 
     for await (const entry of entrySource) {
@@ -2249,7 +2188,7 @@ export async function generateChronicleReport(
     memberCache.set(callerDetails._id, callerDetails);
 
     const entrySource = inputFile
-        ? readAuditLogFromFile(inputFile)
+        ? readAuditLogFromFile(inputFile, year)
         : fetchAuditLogFromAPI(apiKey, targetYear, parallelChunks, baseUrl);
 
     for await (const entry of entrySource) {
@@ -2404,10 +2343,7 @@ if (import.meta.main) {
                 console.error("Error: --base-url requires a URL");
                 Deno.exit(1);
             }
-            // Ensure it has https:// prefix
-            if (!baseUrl.startsWith("http://") && !baseUrl.startsWith("https://")) {
-                baseUrl = "https://" + baseUrl;
-            }
+            baseUrl = normalizeBaseUrl(baseUrl);
             i++;
         } else if (arg === "--everyone") {
             everyone = true;
@@ -1,123 +1,9 @@
 #!/usr/bin/env -S deno run --allow-net --allow-env
 
-interface Flag {
-    key: string;
-    name?: string;
-    tags?: string[];
-    temporary?: boolean;
-    creationDate?: number;
-    clientSideAvailability?: {
-        usingMobileKey?: boolean;
-        usingEnvironmentId?: boolean;
-    };
-    _maintainer?: {
-        _id?: string;
-        _links?: Record<string, unknown>;
-        email?: string;
-        firstName?: string;
-        lastName?: string;
-        role?: string;
-    };
-    _maintainerTeam?: {
-        key?: string;
-        name?: string;
-    };
-    stale?: boolean | {
-        cleanupId?: string | null;
-        readyForCodeRemoval?: boolean;
-        readyToArchive?: boolean;
-    };
-    customProperties?: Record<string, unknown>;
-    description?: string;
-    codeReferences?: {
-        _links?: {
-            self?: {
-                href?: string;
-                type?: string;
-            };
-        };
-        items?: Array<{
-            _links?: {
-                self?: {
-                    href?: string;
-                    type?: string;
-                };
-            };
-            defaultBranch?: string;
-            enabled?: boolean;
-            fileCount?: number;
-            hunkCount?: number;
-            latestCommitTime?: number;
-            name?: string;
-            sourceLink?: string;
-            type?: string;
-            version?: number;
-        }>;
-    };
-    environments: Record<string, {
-        on: boolean;
-        lastModified?: number;
-        fallthrough?: number | null | {
-            variation?: number;
-            variations?: Array<{
-                variation: number;
-                weight: number;
-            }>;
-        };
-        offVariation?: number | null;
-        rules?: Array<{
-            variation?: number;
-            rollout?: {
-                variations: Array<{
-                    variation: number;
-                    weight: number;
-                }>;
-            };
-        }>;
-        targets?: Array<{
-            variation: number;
-            values?: string[];
-        }>;
-        contextTargets?: Array<{
-            variation: number;
-            values?: string[];
-            contextKind?: string;
-        }>;
-        _summary?: {
-            prerequisites?: number;
-            variations?: Record<string, {
-                isFallthrough?: boolean;
-                isOff?: boolean;
-                rules?: number;
-                targets?: number;
-                contextTargets?: number;
-            }>;
-        };
-    }>;
-    variations: Array<{
-        value: unknown;
-        name?: string;
-        description?: string;
-    }>;
-}
-
-interface FlagStatus {
-    default?: unknown;
-    name?: string;
-    lastRequested?: number;
-    _links: {
-        parent: {
-            href: string;
-        };
-    };
-}
-
-interface APIResponse {
-    items: Record<string, unknown>[];
-    _links: {
-        next?: { href: string };
-    };
-}
+import { getAllFlags } from "../get-all-flags/get-all-flags.ts";
+import { getFlagStatusMap } from "../get-all-flag-statuses/get-all-flag-statuses.ts";
+import { parseFlag } from "../flag-model/flag-model.ts";
+import type { Flag, FlagStatus } from "../flag-model/flag-model.ts";
 
 interface CleanupReportOutput {
     key: string;
@@ -175,7 +61,7 @@ interface CleanupReportOutput {
     };
     environment: string;
     lastModified?: number;
-    lastRequested?: number;
+    lastRequested?: FlagStatus["lastRequested"];
     status?: string;
     variations_served: number[];
     fallback_value?: unknown;
@@ -196,132 +82,6 @@ interface CleanupReportOutput {
     };
 }
 
-async function* getAllFlags(
-    projectKey: string,
-    apiKey: string,
-    baseUrl: string,
-    parameters?: URLSearchParams,
-): AsyncGenerator<Record<string, unknown>> {
-    let nextUrl: URL | null = new URL(`/api/v2/flags/${projectKey}`, baseUrl);
-    if (parameters) {
-        parameters.forEach((value, key) => {
-            nextUrl!.searchParams.set(key, value);
-        });
-    }
-
-    while (nextUrl) {
-        const url = new URL(nextUrl, baseUrl);
-        try {
-            const response = await fetch(url, {
-                headers: {
-                    "Authorization": apiKey,
-                    "Content-Type": "application/json",
-                },
-            });
-
-            if (response.status === 429) {
-                const resetTime = response.headers.get("X-RateLimit-Reset");
-                if (resetTime) {
-                    const waitMs = Math.min(
-                        (parseInt(resetTime) * 1000) - Date.now(),
-                        1000,
-                    );
-                    await new Promise((resolve) => setTimeout(resolve, waitMs));
-                    continue;
-                }
-            }
-
-            if (!response.ok) {
-                if (response.status >= 500 || response.status === 429) {
-                    await new Promise((resolve) => setTimeout(resolve, 1000));
-                    continue;
-                }
-                const errorBody = await response.text().catch(() => "");
-                throw new Error(
-                    `API request failed: ${response.status} ${response.statusText}\nURL: ${url}\nResponse: ${errorBody}`,
-                );
-            }
-
-            const data: APIResponse = await response.json();
-
-            for (const flag of data.items) {
-                yield flag;
-            }
-
-            nextUrl = data._links?.next?.href ? new URL(data._links.next.href, baseUrl) : null;
-        } catch (error) {
-            if (error instanceof TypeError && error.message.includes("fetch")) {
-                await new Promise((resolve) => setTimeout(resolve, 1000));
-                continue;
-            }
-            throw error;
-        }
-    }
-}
-
-async function* getAllFlagStatuses(
-    projectKey: string,
-    environmentKey: string,
-    apiKey: string,
-    baseUrl: string,
-): AsyncGenerator<Record<string, unknown>> {
-    let nextUrl = `/api/v2/flag-statuses/${projectKey}/${environmentKey}`;
-
-    while (nextUrl) {
-        const url = new URL(nextUrl, baseUrl);
-        try {
-            const response = await fetch(url, {
-                headers: {
-                    "Authorization": apiKey,
-                    "Content-Type": "application/json",
-                },
-            });
-
-            if (response.status === 429) {
-                const resetTime = response.headers.get("X-RateLimit-Reset");
-                if (resetTime) {
-                    const waitMs = Math.min(
-                        (parseInt(resetTime) * 1000) - Date.now(),
-                        1000,
-                    );
-                    await new Promise((resolve) => setTimeout(resolve, waitMs));
-                    continue;
-                }
-            }
-
-            if (!response.ok) {
-                if (response.status >= 500 || response.status === 429) {
-                    await new Promise((resolve) => setTimeout(resolve, 1000));
-                    continue;
-                }
-                const errorBody = await response.text().catch(() => "");
-                throw new Error(
-                    `API request failed: ${response.status} ${response.statusText}\nURL: ${url}\nResponse: ${errorBody}`,
-                );
-            }
-
-            const data: APIResponse = await response.json();
-
-            for (const flagStatus of data.items) {
-                yield flagStatus;
-            }
-
-            nextUrl = data._links?.next?.href || "";
-        } catch (error) {
-            if (error instanceof TypeError && error.message.includes("fetch")) {
-                await new Promise((resolve) => setTimeout(resolve, 1000));
-                continue;
-            }
-            throw error;
-        }
-    }
-}
-
-function extractFlagKeyFromHref(href: string): string | null {
-    const match = href.match(/\/api\/v2\/flags\/[^/]+\/(.+)$/);
-    return match ? match[1] : null;
-}
-
 function isRollout(fallthrough: number | { variation?: number; variations?: Array<{ variation: number; weight: number }> } | null | undefined): boolean {
     return typeof fallthrough === "object" && fallthrough !== null &&
         Array.isArray(fallthrough.variations);
@@ -413,7 +173,6 @@ async function generateCleanupReport(
     baseUri: string,
 ): Promise<void> {
     const flagsMap = new Map<string, Flag>();
-    const statusesMap = new Map<string, FlagStatus>();
 
     // Set up query parameters for flags API
     const parameters = new URLSearchParams();
@@ -423,19 +182,13 @@ async function generateCleanupReport(
     parameters.append("filter", `filterEnv:${environmentKey},state:live`);
 
     // Fetch all flags with the specified parameters
-    for await (const flag of getAllFlags(projectKey, apiKey, baseUri, parameters)) {
-        const flagData = flag as unknown as Flag;
+    for await (const flag of getAllFlags(projectKey, apiKey, parameters, { baseUrl: baseUri })) {
+        const flagData = parseFlag(flag);
         flagsMap.set(flagData.key, flagData);
     }
 
-    // Fetch all flag statuses
-    for await (const status of getAllFlagStatuses(projectKey, environmentKey, apiKey, baseUri)) {
-        const statusData = status as unknown as FlagStatus;
-        const flagKey = extractFlagKeyFromHref(statusData._links.parent.href);
-        if (flagKey) {
-            statusesMap.set(flagKey, statusData);
-        }
-    }
+    // Fetch all flag statuses, keyed by flag key
+    const statusesMap = await getFlagStatusMap(projectKey, environmentKey, apiKey, { baseUrl: baseUri });
 
     // Generate output for each flag
     for (const [flagKey, flag] of flagsMap) {
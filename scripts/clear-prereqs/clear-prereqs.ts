@@ -1,4 +1,11 @@
-#!/usr/bin/env -S deno run --allow-net --allow-env
+#!/usr/bin/env -S deno run --allow-net --allow-env --allow-read --allow-write
+
+import { getJson, LaunchDarklyApiError, ldFetch, normalizeBaseUrl } from "../ld-client/ld-client.ts";
+import { getAllFlags } from "../get-all-flags/get-all-flags.ts";
+import { parseFlag } from "../flag-model/flag-model.ts";
+import type { Flag, Prerequisite } from "../flag-model/flag-model.ts";
+import { buildGraph, getTransitiveDependents, topologicalOrder } from "../prereq-graph/prereq-graph.ts";
+import { getAllEnvironments } from "../get-all-flag-statuses/get-all-flag-statuses.ts";
 
 interface DependentFlagEnvironment {
     name: string;
@@ -50,29 +57,111 @@ type RemovePrerequisiteInstruction = {
     kind: "removePrerequisite";
     key: string;
 };
-type SemanticPatchInstruction = RemovePrerequisiteInstruction;
+type AddPrerequisiteInstruction = {
+    kind: "addPrerequisite";
+    key: string;
+    variationId: string;
+};
+type SemanticPatchInstruction = RemovePrerequisiteInstruction | AddPrerequisiteInstruction;
+
+// What happened to a prerequisite saved in the undo file: "pending" until its patch has run
+type RemovalStatus = "pending" | "removed" | "failed" | "approval-requested";
+
+const REMOVAL_STATUSES: RemovalStatus[] = ["pending", "removed", "failed", "approval-requested"];
+
+// A prerequisite as it was before it was removed, enough to add it back
+interface RemovedPrerequisite {
+    flagKey: string;
+    environment: string;
+    prerequisiteKey: string;
+    variation: number;          // Index into the prerequisite flag's variations
+    variationId: string;        // The same variation's _id, which addPrerequisite takes
+    status?: RemovalStatus;     // Absent in undo files written before statuses were recorded
+}
+
+interface UndoLog {
+    projectKey: string;
+    flagKey: string;
+    createdAt: string;
+    prerequisites: RemovedPrerequisite[];   // In the order they were removed
+}
+
+// An undo file being written, rewritten as each removal finishes
+interface UndoFile {
+    path: string;
+    undoLog: UndoLog;
+}
+
+interface ApprovalSettings {
+    required?: boolean;
+    requiredApprovalTags?: string[];
+}
+
+interface ApprovalRequest {
+    _id: string;
+}
+
+// Prerequisites to remove from one flag in one environment
+interface ClearStep {
+    flag: Flag;
+    environment: string;
+    prerequisites: RemovedPrerequisite[];
+}
 
 const LD_API_KEY = Deno.env.get("LD_API_KEY");
-const LD_API_URL = Deno.env.get("LD_API_ENDPOINT") ||
-    "https://app.launchdarkly.com/";
+const LD_API_URL = normalizeBaseUrl(
+    Deno.env.get("LD_API_ENDPOINT") || "https://app.launchdarkly.com/",
+);
 
 if (!LD_API_KEY) {
     throw new Error("LD_API_KEY is not set");
 }
 
-const [projectKey, flagKey, execute] = Deno.args;
+const USAGE = "Usage: clear-prereqs <projectKey> <flagKey> [--transitive] [--undo-file <file>] [--env <keys>] " +
+    "[--exclude-env <keys>] [--request-approvals] [--execute]\n" +
+    "       clear-prereqs --restore <undo-file> [--env <keys>] [--exclude-env <keys>] [--request-approvals] [--execute]";
+const positional: string[] = [];
 let isDryRun = true;
+let isTransitive = false;
+let requestApprovals = false;
+let undoFile: string | undefined;
+let restoreFile: string | undefined;
+let includeEnvironments: string[] | undefined;
+let excludeEnvironments: string[] = [];
 
-if (!projectKey || !flagKey) {
-    throw new Error("Usage: clear-prereqs <projectKey> <flagKey> [--execute]");
+for (let i = 0; i < Deno.args.length; i++) {
+    const arg = Deno.args[i];
+    if (arg === "--execute") {
+        isDryRun = false;
+    } else if (arg === "--transitive") {
+        isTransitive = true;
+    } else if (arg === "--request-approvals") {
+        requestApprovals = true;
+    } else if (["--undo-file", "--restore", "--env", "--exclude-env"].includes(arg)) {
+        const value = Deno.args[++i];
+        if (!value || value.startsWith("--")) {
+            throw new Error(`Missing value for ${arg}.\n${USAGE}`);
+        }
+        const keys = value.split(",").map((key) => key.trim()).filter((key) => key);
+        if (arg === "--undo-file") {
+            undoFile = value;
+        } else if (arg === "--restore") {
+            restoreFile = value;
+        } else if (arg === "--env") {
+            includeEnvironments = keys;
+        } else {
+            excludeEnvironments = keys;
+        }
+    } else if (arg.startsWith("--")) {
+        throw new Error(`Unreconized argument ${arg}.\n${USAGE}`);
+    } else {
+        positional.push(arg);
+    }
 }
 
-if (execute === "--execute") {
-    isDryRun = false;
-} else if (execute !== null && execute !== undefined && execute !== "") {
-    throw new Error(
-        `Unreconized argument ${execute}.\nUsage: clear-prereqs <projectKey> <flagKey> [--execute]`,
-    );
+const [projectKey, flagKey] = positional;
+if (restoreFile ? positional.length > 0 : positional.length !== 2) {
+    throw new Error(USAGE);
 }
 
 // log to stderr
@@ -81,97 +170,477 @@ function log(message: string) {
     Deno.stderr.writeSync(new TextEncoder().encode(message + "\n"));
 }
 
-async function get<T>(path: string | URL): Promise<T> {
-    const url = new URL(path, LD_API_URL);
-    const response = await fetchWithRateLimitRetry(
-        new Request(url, {
-            headers: {
-                "Authorization": `${LD_API_KEY}`,
-                "LD-API-Version": "beta",
-            },
-        }),
-    );
-    return response.json();
-}
-
-async function patch(path: string | URL, body: any) {
-    const url = new URL(path, LD_API_URL);
-    const response = await fetchWithRateLimitRetry(
-        new Request(url, {
-            method: "PATCH",
-            headers: {
-                "Authorization": `${LD_API_KEY}`,
-                "LD-API-Version": "beta",
-                "Content-Type":
-                    "application/json; domain-model=launchdarkly.semanticpatch",
+function get<T>(path: string | URL): Promise<T> {
+    return getJson<T>(LD_API_KEY!, path, {
+        baseUrl: LD_API_URL,
+        apiVersion: "beta",
+    });
+}
+
+function patch(path: string | URL, body: SemanticPatch): Promise<Response> {
+    return ldFetch(LD_API_KEY!, path, {
+        baseUrl: LD_API_URL,
+        apiVersion: "beta",
+        method: "PATCH",
+        contentType: "application/json; domain-model=launchdarkly.semanticpatch",
+        body,
+        // A 5xx or dropped connection may follow an applied change, so only 429s are retried
+        retryOn: "rate-limit",
+    });
+}
+
+function includesEnvironment(environment: string): boolean {
+    return (!includeEnvironments || includeEnvironments.includes(environment)) &&
+        !excludeEnvironments.includes(environment);
+}
+
+// Approval settings of each environment, by project, fetched the first time they're needed
+const approvalSettings = new Map<string, Map<string, ApprovalSettings>>();
+
+async function getApprovalSettings(project: string): Promise<Map<string, ApprovalSettings>> {
+    if (!approvalSettings.has(project)) {
+        const settings = new Map<string, ApprovalSettings>();
+        for await (const env of getAllEnvironments(project, LD_API_KEY!, { baseUrl: LD_API_URL })) {
+            settings.set(env.key as string, (env.approvalSettings ?? {}) as ApprovalSettings);
+        }
+        approvalSettings.set(project, settings);
+    }
+    return approvalSettings.get(project)!;
+}
+
+// Fail on --env and --exclude-env keys that aren't environments of the project, rather than match nothing
+async function validateEnvironments(project: string) {
+    const keys = [...includeEnvironments ?? [], ...excludeEnvironments];
+    if (keys.length === 0) {
+        return;
+    }
+    const environments = [...(await getApprovalSettings(project)).keys()];
+    const unknown = keys.filter((key) => !environments.includes(key));
+    if (unknown.length > 0) {
+        throw new Error(
+            `Unknown environments in ${project}: ${unknown.join(", ")}. Its environments are: ${environments.join(", ")}`,
+        );
+    }
+}
+
+async function requiresApproval(project: string, flagKey: string, environment: string, tags?: string[]): Promise<boolean> {
+    const settings = (await getApprovalSettings(project)).get(environment);
+
+    // Required approval tags narrow approval to flags with one of those tags
+    const requiredTags = settings?.requiredApprovalTags ?? [];
+    if (requiredTags.length === 0) {
+        return settings?.required ?? false;
+    }
+    tags ??= (await get<Flag>(`/api/v2/flags/${project}/${flagKey}`)).tags ?? [];
+    return tags.some((tag) => requiredTags.includes(tag));
+}
+
+// In a dry run with --request-approvals, a note on the changes that would be submitted for approval
+async function approvalNote(project: string, flagKey: string, environment: string, tags?: string[]): Promise<string[]> {
+    return requestApprovals && await requiresApproval(project, flagKey, environment, tags) ? ["(approval request)"] : [];
+}
+
+const approvalRequestIds: string[] = [];
+
+/**
+ * Apply semantic patch instructions to a flag in one environment. With
+ * --request-approvals, environments that require approval get an approval
+ * request with the same comment and instructions instead, and its ID is
+ * returned; otherwise returns null.
+ */
+async function applyInstructions(
+    project: string,
+    flagKey: string,
+    environment: string,
+    comment: string,
+    instructions: SemanticPatchInstruction[],
+    tags?: string[],
+): Promise<string | null> {
+    if (requestApprovals && await requiresApproval(project, flagKey, environment, tags)) {
+        const request = await getJson<ApprovalRequest>(
+            LD_API_KEY!,
+            `/api/v2/projects/${project}/flags/${flagKey}/environments/${environment}/approval-requests`,
+            {
+                baseUrl: LD_API_URL,
+                method: "POST",
+                body: { description: comment, comment, instructions },
+                // Sending it again after a timeout could open a duplicate request
+                retryOn: "rate-limit",
             },
-            body: JSON.stringify(body),
-        }),
-    );
-    return response;
+        );
+        approvalRequestIds.push(request._id);
+        return request._id;
+    }
+    await patch(`/api/v2/flags/${project}/${flagKey}`, { environmentKey: environment, comment, instructions });
+    return null;
+}
+
+function reportApprovalRequests() {
+    if (approvalRequestIds.length > 0) {
+        const requests = approvalRequestIds.length === 1 ? "approval request" : "approval requests";
+        log(`\uD83D\uDCE8 Submitted ${approvalRequestIds.length} ${requests}: ${approvalRequestIds.join(", ")}`);
+    }
 }
 
-async function fetchWithRateLimitRetry(request: Request): Promise<Response> {
-    const retryRequest = request.clone();
-    let response = await fetch(request);
-    while (response.status === 429) {
-        const retryAfter = response.headers.get("X-Ratelimit-Reset") || 2000;
-        log(`\u274C Rate limit exceeded, retrying...`);
-        await new Promise((resolve) => setTimeout(resolve, Number(retryAfter)));
-        response = await fetch(retryRequest.clone());
+function removedPrerequisite(
+    flagKey: string,
+    environment: string,
+    prerequisite: Prerequisite,
+    prerequisiteFlag: Flag | undefined,
+): RemovedPrerequisite {
+    const variationId = prerequisiteFlag?.variations[prerequisite.variation]?._id;
+    if (!variationId) {
+        throw new Error(
+            `Cannot find variation ${prerequisite.variation} of ${prerequisite.key}, required by ${flagKey} in ${environment}`,
+        );
     }
-    return response;
+    return { flagKey, environment, prerequisiteKey: prerequisite.key, variation: prerequisite.variation, variationId };
 }
 
-function displayDependentFlags(dependentFlags: ListAPIResponse<DependentFlag>) {
-    for (const flag of dependentFlags.items) {
+// Save the prerequisites about to be removed, so --restore can add them back
+async function writeUndoLog(prerequisites: RemovedPrerequisite[]): Promise<UndoFile> {
+    const createdAt = new Date().toISOString();
+    const path = undoFile ?? `clear-prereqs-undo-${projectKey}-${flagKey}-${createdAt.replace(/[:.]/g, "-")}.json`;
+    for (const prerequisite of prerequisites) {
+        prerequisite.status = "pending";
+    }
+    const undoLog: UndoLog = { projectKey, flagKey, createdAt, prerequisites };
+    await Deno.writeTextFile(path, JSON.stringify(undoLog, null, 2) + "\n");
+    log(`\uD83D\uDCDD Saved ${prerequisites.length} prerequisites to ${path}; restore them with --restore ${path}`);
+    return { path, undoLog };
+}
+
+// Record how removing some of the saved prerequisites went, so --restore only adds back the removed ones
+async function recordRemoval(file: UndoFile, prerequisites: RemovedPrerequisite[], status: RemovalStatus) {
+    for (const prerequisite of prerequisites) {
+        prerequisite.status = status;
+    }
+    await Deno.writeTextFile(file.path, JSON.stringify(file.undoLog, null, 2) + "\n");
+}
+
+async function displayDependentFlags(dependentFlags: DependentFlag[]) {
+    for (const flag of dependentFlags) {
+        const environments: string[] = [];
+        for (const env of flag.environments) {
+            environments.push([env.key, ...await approvalNote(projectKey, flag.key, env.key)].join(" "));
+        }
         console.log(
             flag.name,
             flag.key,
-            flag.environments.map((env) => env.key).join(", "),
+            environments.join(", "),
         );
     }
 }
 
-// Get flag dependencies with proper typing
-const dependentFlags = await get<ListAPIResponse<DependentFlag>>(
-    `/api/v2/flags/${projectKey}/${flagKey}/dependent-flags`,
-);
+/**
+ * Plan the removal of every prerequisite on the flag or on a flag that depends
+ * on it, directly or indirectly, one environment at a time. Within each
+ * environment, flags furthest down the chain come first, so each flag is
+ * cleared before the flags it requires and no flag is left depending on one
+ * whose prerequisites were already removed. Archived flags can't be changed,
+ * so they are left out of the plan and returned as skipped when they require
+ * a flag in it.
+ */
+async function planTransitiveClear(): Promise<{ steps: ClearStep[]; skipped: string[] }> {
+    const flags: Flag[] = [];
+    for await (
+        const flag of getAllFlags(projectKey, LD_API_KEY!, new URLSearchParams({ summary: "0" }), {
+            baseUrl: LD_API_URL,
+        })
+    ) {
+        flags.push(parseFlag(flag));
+    }
+    const archivedFlags: Flag[] = [];
+    for await (
+        const flag of getAllFlags(
+            projectKey,
+            LD_API_KEY!,
+            new URLSearchParams({ summary: "0", filter: "state:archived" }),
+            { baseUrl: LD_API_URL },
+        )
+    ) {
+        archivedFlags.push(parseFlag(flag));
+    }
 
-if (isDryRun) {
-    log(`\u2139\uFE0F  Found ${dependentFlags.items.length} dependent flags`);
-    if (dependentFlags.items.length > 0) {
-        log(`\u26A1\uFE0F Run again with --execute to delete the associated rules`);
+    // Prerequisites are set per environment, so a chain only counts where every link is in the same one
+    const environments = new Set(flags.flatMap((flag) => Object.keys(flag.environments)));
+    const steps: ClearStep[] = [];
+    const skipped = new Set<string>();
+    for (const environment of environments) {
+        if (!includesEnvironment(environment)) continue;
+        const graph = buildGraph(flags, { environments: [environment] });
+        const clearing = new Set([flagKey, ...getTransitiveDependents(graph, flagKey)]);
+        for (const key of topologicalOrder(graph, [...clearing]).reverse()) {
+            const flag = graph.flags.get(key);
+            const prerequisites = (flag?.environments[environment]?.prerequisites ?? [])
+                .filter((prerequisite) => clearing.has(prerequisite.key))
+                .map((prerequisite) =>
+                    removedPrerequisite(key, environment, prerequisite, graph.flags.get(prerequisite.key))
+                );
+            if (flag && prerequisites.length > 0) {
+                steps.push({ flag, environment, prerequisites });
+            }
+        }
+        for (const flag of archivedFlags) {
+            const prerequisites = flag.environments[environment]?.prerequisites ?? [];
+            if (prerequisites.some((prerequisite) => clearing.has(prerequisite.key))) {
+                skipped.add(flag.key);
+            }
+        }
     }
-    displayDependentFlags(dependentFlags);
-} else {
-    for (const flag of dependentFlags.items) {
-        const ops = flag.environments.map((env) => ({
-            "environmentKey": env.key,
-            "comment":
-                `Clearing dependencies on ${flagKey} via ld-toolkit/clear-prereqs`,
-            "instructions": [{ "kind": "removePrerequisite", "key": flagKey }],
-        }));
-        for (const op of ops) {
-            const res = await patch(
-                `/api/v2/flags/${projectKey}/${flag.key}`,
-                op,
+    return { steps, skipped: [...skipped] };
+}
+
+async function clearTransitive() {
+    await validateEnvironments(projectKey);
+    const { steps, skipped } = await planTransitiveClear();
+    const flagCount = new Set(steps.map((step) => step.flag.key)).size;
+    if (skipped.length > 0) {
+        log(
+            `\u26A0\uFE0F  Skipping ${skipped.length} archived flags that require ${flagKey} or a flag that depends on it: ${skipped.join(", ")}`,
+        );
+    }
+
+    if (isDryRun) {
+        log(`\u2139\uFE0F  Found ${flagCount} flags that depend on ${flagKey} directly or indirectly`);
+        if (steps.length > 0) {
+            log(`\u26A1\uFE0F Run again with --execute to remove these prerequisites, in this order`);
+        }
+        for (const step of steps) {
+            console.log(
+                step.flag.name ?? step.flag.key,
+                step.flag.key,
+                step.environment,
+                step.prerequisites.map((prerequisite) => prerequisite.prerequisiteKey).join(", "),
+                ...await approvalNote(projectKey, step.flag.key, step.environment, step.flag.tags ?? []),
+            );
+        }
+        return;
+    }
+
+    const file = await writeUndoLog(steps.flatMap((step) => step.prerequisites));
+    for (const step of steps) {
+        const name = `${step.flag.name ?? step.flag.key} (${step.flag.key})`;
+        const prerequisiteKeys = step.prerequisites.map((prerequisite) => prerequisite.prerequisiteKey);
+        try {
+            const requestId = await applyInstructions(
+                projectKey,
+                step.flag.key,
+                step.environment,
+                `Clearing dependencies on ${prerequisiteKeys.join(", ")} via ld-toolkit/clear-prereqs`,
+                prerequisiteKeys.map((key) => ({ kind: "removePrerequisite", key })),
+                step.flag.tags ?? [],
             );
-            if (!res.ok) {
+            await recordRemoval(file, step.prerequisites, requestId ? "approval-requested" : "removed");
+            if (requestId) {
                 log(
-                    `\u274C Failed to remove prerequesite on ${flag.name} (${flag.key}) in ${
-                        op.environmentKey
-                    }`,
+                    `\uD83D\uDCE8 Requested approval to remove prerequisites ${prerequisiteKeys.join(", ")} on ${name} in ${step.environment}: ${requestId}`,
                 );
-                const result = await res.json();
-                console.error(result);
             } else {
                 log(
-                    `\u2705 Removed prerequesite on ${flag.name} (${flag.key}) in ${
-                        op.environmentKey
-                    }`,
+                    `\u2705 Removed prerequisites ${prerequisiteKeys.join(", ")} on ${name} in ${step.environment}`,
+                );
+            }
+        } catch (error) {
+            if (!(error instanceof LaunchDarklyApiError)) {
+                throw error;
+            }
+            await recordRemoval(file, step.prerequisites, "failed");
+            log(`\u274C Failed to remove prerequisites on ${name} in ${step.environment}`);
+            console.error(error.body || error.message);
+        }
+    }
+    reportApprovalRequests();
+}
+
+async function clearDirect() {
+    await validateEnvironments(projectKey);
+    // Get flag dependencies with proper typing
+    const response = await get<ListAPIResponse<DependentFlag>>(
+        `/api/v2/flags/${projectKey}/${flagKey}/dependent-flags`,
+    );
+    const dependentFlags = response.items
+        .map((flag) => ({ ...flag, environments: flag.environments.filter((env) => includesEnvironment(env.key)) }))
+        .filter((flag) => flag.environments.length > 0);
+
+    if (isDryRun) {
+        log(`\u2139\uFE0F  Found ${dependentFlags.length} dependent flags`);
+        if (dependentFlags.length > 0) {
+            log(`\u26A1\uFE0F Run again with --execute to delete the associated rules`);
+        }
+        await displayDependentFlags(dependentFlags);
+    } else {
+        // Look up the variation each dependent requires before removing anything
+        const prerequisiteFlag = await get<Flag>(`/api/v2/flags/${projectKey}/${flagKey}`);
+        const removed: RemovedPrerequisite[] = [];
+        const tags = new Map<string, string[]>();
+        for (const flag of dependentFlags) {
+            const dependent = await get<Flag>(`/api/v2/flags/${projectKey}/${flag.key}`);
+            tags.set(flag.key, dependent.tags ?? []);
+            for (const env of flag.environments) {
+                const prerequisite = dependent.environments[env.key]?.prerequisites
+                    ?.find((prerequisite) => prerequisite.key === flagKey);
+                if (prerequisite) {
+                    removed.push(removedPrerequisite(flag.key, env.key, prerequisite, prerequisiteFlag));
+                }
+            }
+        }
+        const file = await writeUndoLog(removed);
+
+        for (const flag of dependentFlags) {
+            const ops: SemanticPatch[] = flag.environments.map((env) => ({
+                "environmentKey": env.key,
+                "comment":
+                    `Clearing dependencies on ${flagKey} via ld-toolkit/clear-prereqs`,
+                "instructions": [{ "kind": "removePrerequisite", "key": flagKey }],
+            }));
+            for (const op of ops) {
+                const saved = removed.filter((prerequisite) =>
+                    prerequisite.flagKey === flag.key && prerequisite.environment === op.environmentKey
                 );
+                try {
+                    const requestId = await applyInstructions(
+                        projectKey,
+                        flag.key,
+                        op.environmentKey,
+                        op.comment,
+                        op.instructions,
+                        tags.get(flag.key),
+                    );
+                    await recordRemoval(file, saved, requestId ? "approval-requested" : "removed");
+                    if (requestId) {
+                        log(
+                            `\uD83D\uDCE8 Requested approval to remove prerequesite on ${flag.name} (${flag.key}) in ${op.environmentKey}: ${requestId}`,
+                        );
+                    } else {
+                        log(
+                            `\u2705 Removed prerequesite on ${flag.name} (${flag.key}) in ${
+                                op.environmentKey
+                            }`,
+                        );
+                    }
+                } catch (error) {
+                    if (!(error instanceof LaunchDarklyApiError)) {
+                        throw error;
+                    }
+                    await recordRemoval(file, saved, "failed");
+                    log(
+                        `\u274C Failed to remove prerequesite on ${flag.name} (${flag.key}) in ${
+                            op.environmentKey
+                        }`,
+                    );
+                    console.error(error.body || error.message);
+                }
             }
         }
+        reportApprovalRequests();
     }
 }
+
+function parseUndoLog(text: string, path: string): UndoLog {
+    let undoLog: UndoLog;
+    try {
+        undoLog = JSON.parse(text);
+    } catch {
+        throw new Error(`${path} is not a clear-prereqs undo file`);
+    }
+    const valid = typeof undoLog?.projectKey === "string" && Array.isArray(undoLog.prerequisites) &&
+        undoLog.prerequisites.every((prerequisite) =>
+            typeof prerequisite?.flagKey === "string" && typeof prerequisite.environment === "string" &&
+            typeof prerequisite.prerequisiteKey === "string" && typeof prerequisite.variation === "number" &&
+            typeof prerequisite.variationId === "string" &&
+            (prerequisite.status === undefined || REMOVAL_STATUSES.includes(prerequisite.status))
+        );
+    if (!valid) {
+        throw new Error(`${path} is not a clear-prereqs undo file`);
+    }
+    return undoLog;
+}
+
+// Add back the prerequisites saved in an undo file, in the reverse of the order they were removed
+async function restore(path: string) {
+    const undoLog = parseUndoLog(await Deno.readTextFile(path), path);
+    await validateEnvironments(undoLog.projectKey);
+
+    // Only add back what was removed: the rest is either still there or waiting on an approval request
+    const inScope = undoLog.prerequisites.filter((prerequisite) => includesEnvironment(prerequisite.environment));
+    const prerequisites = inScope.filter((prerequisite) => (prerequisite.status ?? "removed") === "removed");
+    for (const prerequisite of inScope.filter((prerequisite) => !prerequisites.includes(prerequisite))) {
+        log(
+            `\u23ED\uFE0F  Skipping ${prerequisite.prerequisiteKey} on ${prerequisite.flagKey} in ${prerequisite.environment}: ${prerequisite.status}`,
+        );
+    }
+
+    // One patch per flag and environment
+    const steps: Array<{ flagKey: string; environment: string; prerequisites: RemovedPrerequisite[] }> = [];
+    for (const prerequisite of [...prerequisites].reverse()) {
+        const step = steps.find((step) =>
+            step.flagKey === prerequisite.flagKey && step.environment === prerequisite.environment
+        );
+        if (step) {
+            step.prerequisites.unshift(prerequisite);
+        } else {
+            steps.push({ flagKey: prerequisite.flagKey, environment: prerequisite.environment, prerequisites: [prerequisite] });
+        }
+    }
+
+    const describe = (prerequisites: RemovedPrerequisite[]) =>
+        prerequisites.map((prerequisite) => `${prerequisite.prerequisiteKey} (variation ${prerequisite.variation})`)
+            .join(", ");
+
+    if (isDryRun) {
+        log(
+            `\u2139\uFE0F  Found ${prerequisites.length} prerequisites in ${path}, removed from ${undoLog.projectKey} at ${undoLog.createdAt}`,
+        );
+        if (steps.length > 0) {
+            log(`\u26A1\uFE0F Run again with --execute to add them back`);
+        }
+        for (const step of steps) {
+            console.log(
+                step.flagKey,
+                step.environment,
+                describe(step.prerequisites),
+                ...await approvalNote(undoLog.projectKey, step.flagKey, step.environment),
+            );
+        }
+        return;
+    }
+
+    for (const step of steps) {
+        try {
+            const requestId = await applyInstructions(
+                undoLog.projectKey,
+                step.flagKey,
+                step.environment,
+                `Restoring prerequisites removed by ld-toolkit/clear-prereqs at ${undoLog.createdAt}`,
+                step.prerequisites.map((prerequisite) => ({
+                    kind: "addPrerequisite",
+                    key: prerequisite.prerequisiteKey,
+                    variationId: prerequisite.variationId,
+                })),
+            );
+            if (requestId) {
+                log(
+                    `\uD83D\uDCE8 Requested approval to restore prerequisites ${describe(step.prerequisites)} on ${step.flagKey} in ${step.environment}: ${requestId}`,
+                );
+            } else {
+                log(`\u2705 Restored prerequisites ${describe(step.prerequisites)} on ${step.flagKey} in ${step.environment}`);
+            }
+        } catch (error) {
+            if (!(error instanceof LaunchDarklyApiError)) {
+                throw error;
+            }
+            log(`\u274C Failed to restore prerequisites on ${step.flagKey} in ${step.environment}`);
+            console.error(error.body || error.message);
+        }
+    }
+    reportApprovalRequests();
+}
+
+if (restoreFile) {
+    await restore(restoreFile);
+} else if (isTransitive) {
+    await clearTransitive();
+} else {
+    await clearDirect();
+}
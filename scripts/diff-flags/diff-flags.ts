@@ -0,0 +1,526 @@
+#!/usr/bin/env -S deno run --allow-read
+
+import { readFlagSnapshot } from "../get-all-flags/get-all-flags.ts";
+import type { Clause, Flag, FlagEnvironment, Rule, Target, VariationOrRollout } from "../flag-model/flag-model.ts";
+
+export type ChangeField = "on" | "fallthrough" | "offVariation" | "rules" | "targets" | "prerequisites";
+
+export interface FlagChange {
+    environment?: string;       // Unset when comparing two environments
+    field: ChangeField;
+    description: string;        // e.g. "Rule 2 added: if country in NO serve On"
+    before?: unknown;
+    after?: unknown;
+}
+
+export interface FlagDiff {
+    flagKey: string;
+    changes: FlagChange[];
+}
+
+export interface SnapshotDiff {
+    before: string;             // What was compared, e.g. a file name or environment key
+    after: string;
+    added: string[];
+    removed: string[];
+    archived: string[];
+    unarchived: string[];
+    changed: FlagDiff[];
+}
+
+export interface EnvironmentDiff {
+    before: string;             // Environment keys
+    after: string;
+    onlyBefore: string[];       // Flags that only have the first environment
+    onlyAfter: string[];        // Flags that only have the second environment
+    changed: FlagDiff[];
+}
+
+export type DiffFormat = "json" | "markdown";
+
+/**
+ * Describe a variation by name, falling back to its JSON value
+ */
+export function describeVariation(flag: Flag, index: number | null | undefined): string {
+    if (index === null || index === undefined) return "nothing";
+    const variation = flag.variations[index];
+    if (!variation) return `variation ${index}`;
+    return variation.name ?? JSON.stringify(variation.value);
+}
+
+function describeServe(flag: Flag, serve: number | VariationOrRollout | null | undefined): string {
+    if (serve === null || serve === undefined) return "nothing";
+    if (typeof serve === "number") return describeVariation(flag, serve);
+    if (serve.variation !== undefined && serve.variation !== null) return describeVariation(flag, serve.variation);
+
+    const variations = serve.rollout?.variations ?? serve.variations ?? [];
+    const split = variations
+        .filter((weighted) => weighted.weight > 0)
+        .map((weighted) => `${weighted.weight / 1000}% ${describeVariation(flag, weighted.variation)}`)
+        .join(" / ");
+    const bucketBy = serve.rollout?.bucketBy && serve.rollout.bucketBy !== "key" ? ` by ${serve.rollout.bucketBy}` : "";
+    return `rollout ${split}${bucketBy}`;
+}
+
+function describeClause(clause: Clause): string {
+    const attribute = clause.contextKind && clause.contextKind !== "user"
+        ? `${clause.contextKind}.${clause.attribute}`
+        : clause.attribute;
+    const values = clause.values.map((value) => typeof value === "string" ? value : JSON.stringify(value)).join(", ");
+    if (clause.op === "segmentMatch") {
+        return `${clause.negate ? "not " : ""}in segment ${values}`;
+    }
+    return `${attribute} ${clause.negate ? "not " : ""}${clause.op} ${values}`;
+}
+
+export function describeRule(flag: Flag, rule: Rule): string {
+    const conditions = rule.clauses.map(describeClause).join(" and ");
+    const description = rule.description ? ` (${rule.description})` : "";
+    return `if ${conditions} serve ${describeServe(flag, rule)}${description}`;
+}
+
+// Comparable form of a rule's targeting, ignoring IDs and bookkeeping fields
+function ruleSignature(rule: Rule): string {
+    return JSON.stringify({
+        clauses: rule.clauses.map((clause) => [clause.contextKind ?? "user", clause.attribute, clause.op, clause.values, clause.negate ?? false]),
+        serve: serveSignature(rule),
+    });
+}
+
+function serveSignature(serve: number | VariationOrRollout | null | undefined): string {
+    if (serve === null || serve === undefined) return "null";
+    if (typeof serve === "number") return String(serve);
+    if (serve.variation !== undefined && serve.variation !== null) return String(serve.variation);
+    const rollout = serve.rollout ?? { variations: serve.variations ?? [] };
+    return JSON.stringify({
+        variations: rollout.variations.map((weighted) => [weighted.variation, weighted.weight]),
+        bucketBy: rollout.bucketBy ?? "key",
+        contextKind: rollout.contextKind ?? "user",
+    });
+}
+
+function diffRules(
+    beforeFlag: Flag,
+    before: Rule[],
+    afterFlag: Flag,
+    after: Rule[],
+    matchById: boolean,
+): Omit<FlagChange, "environment">[] {
+    const changes: Omit<FlagChange, "environment">[] = [];
+    const canMatchById = matchById && [...before, ...after].every((rule) => rule._id);
+
+    if (canMatchById) {
+        const beforeById = new Map(before.map((rule, index) => [rule._id!, { rule, index }]));
+        const afterIds = new Set(after.map((rule) => rule._id!));
+
+        for (const { rule, index } of beforeById.values()) {
+            if (!afterIds.has(rule._id!)) {
+                changes.push({
+                    field: "rules",
+                    description: `Rule ${index + 1} removed: ${describeRule(beforeFlag, rule)}`,
+                    before: rule,
+                });
+            }
+        }
+        after.forEach((rule, index) => {
+            const previous = beforeById.get(rule._id!);
+            if (!previous) {
+                changes.push({
+                    field: "rules",
+                    description: `Rule ${index + 1} added: ${describeRule(afterFlag, rule)}`,
+                    after: rule,
+                });
+            } else if (ruleSignature(previous.rule) !== ruleSignature(rule)) {
+                changes.push({
+                    field: "rules",
+                    description: `Rule ${index + 1} changed: ${describeRule(beforeFlag, previous.rule)} → ${describeRule(afterFlag, rule)}`,
+                    before: previous.rule,
+                    after: rule,
+                });
+            }
+        });
+
+        const beforeOrder = before.map((rule) => rule._id).filter((id) => afterIds.has(id!));
+        const afterOrder = after.map((rule) => rule._id).filter((id) => beforeById.has(id!));
+        if (beforeOrder.join() !== afterOrder.join()) {
+            changes.push({ field: "rules", description: "Rules reordered", before: beforeOrder, after: afterOrder });
+        }
+        return changes;
+    }
+
+    // Without stable IDs (e.g. across environments), compare rules by position
+    for (let index = 0; index < Math.max(before.length, after.length); index++) {
+        const previous = before[index];
+        const rule = after[index];
+        if (!rule) {
+            changes.push({
+                field: "rules",
+                description: `Rule ${index + 1} removed: ${describeRule(beforeFlag, previous)}`,
+                before: previous,
+            });
+        } else if (!previous) {
+            changes.push({
+                field: "rules",
+                description: `Rule ${index + 1} added: ${describeRule(afterFlag, rule)}`,
+                after: rule,
+            });
+        } else if (ruleSignature(previous) !== ruleSignature(rule)) {
+            changes.push({
+                field: "rules",
+                description: `Rule ${index + 1} changed: ${describeRule(beforeFlag, previous)} → ${describeRule(afterFlag, rule)}`,
+                before: previous,
+                after: rule,
+            });
+        }
+    }
+    return changes;
+}
+
+// Individual targets as a map of "kind/variation" to keys, merging targets and contextTargets
+function collectTargets(environment: FlagEnvironment): Map<string, Set<string>> {
+    const targets = new Map<string, Set<string>>();
+    const add = (target: Target, contextKind: string) => {
+        const id = `${contextKind}/${target.variation}`;
+        const keys = targets.get(id) ?? new Set<string>();
+        (target.values ?? []).forEach((value) => keys.add(value));
+        targets.set(id, keys);
+    };
+    (environment.targets ?? []).forEach((target) => add(target, "user"));
+    // User contextTargets are placeholders for the entries in `targets`
+    (environment.contextTargets ?? []).forEach((target) => add(target, target.contextKind ?? "user"));
+    return targets;
+}
+
+function diffTargets(
+    beforeFlag: Flag,
+    before: FlagEnvironment,
+    afterFlag: Flag,
+    after: FlagEnvironment,
+): Omit<FlagChange, "environment">[] {
+    const changes: Omit<FlagChange, "environment">[] = [];
+    const beforeTargets = collectTargets(before);
+    const afterTargets = collectTargets(after);
+
+    for (const id of new Set([...beforeTargets.keys(), ...afterTargets.keys()])) {
+        const [contextKind, variation] = id.split("/");
+        const previous = beforeTargets.get(id) ?? new Set<string>();
+        const current = afterTargets.get(id) ?? new Set<string>();
+        const added = [...current].filter((key) => !previous.has(key)).sort();
+        const removed = [...previous].filter((key) => !current.has(key)).sort();
+
+        if (added.length > 0) {
+            changes.push({
+                field: "targets",
+                description: `${contextKind} targets added to ${describeVariation(afterFlag, Number(variation))}: ${added.join(", ")}`,
+                after: { contextKind, variation: Number(variation), values: added },
+            });
+        }
+        if (removed.length > 0) {
+            changes.push({
+                field: "targets",
+                description: `${contextKind} targets removed from ${describeVariation(beforeFlag, Number(variation))}: ${removed.join(", ")}`,
+                before: { contextKind, variation: Number(variation), values: removed },
+            });
+        }
+    }
+    return changes;
+}
+
+function diffPrerequisites(before: FlagEnvironment, after: FlagEnvironment): Omit<FlagChange, "environment">[] {
+    const changes: Omit<FlagChange, "environment">[] = [];
+    const previous = new Map((before.prerequisites ?? []).map((prerequisite) => [prerequisite.key, prerequisite]));
+    const current = new Map((after.prerequisites ?? []).map((prerequisite) => [prerequisite.key, prerequisite]));
+
+    for (const [key, prerequisite] of previous) {
+        if (!current.has(key)) {
+            changes.push({ field: "prerequisites", description: `Prerequisite ${key} removed`, before: prerequisite });
+        } else if (current.get(key)!.variation !== prerequisite.variation) {
+            changes.push({
+                field: "prerequisites",
+                description: `Prerequisite ${key} now requires variation ${current.get(key)!.variation} instead of ${prerequisite.variation}`,
+                before: prerequisite,
+                after: current.get(key),
+            });
+        }
+    }
+    for (const [key, prerequisite] of current) {
+        if (!previous.has(key)) {
+            changes.push({
+                field: "prerequisites",
+                description: `Prerequisite ${key} added (variation ${prerequisite.variation})`,
+                after: prerequisite,
+            });
+        }
+    }
+    return changes;
+}
+
+// A flag exported without full targeting only has a summary of each environment, which would diff as unchanged
+function assertTargeting(flag: Flag, environmentKey: string): void {
+    if (flag.environments[environmentKey]?.fallthrough === undefined) {
+        throw new Error(
+            `Flag "${flag.key}" has no targeting for environment "${environmentKey}"; ` +
+                `export the snapshot with --summary 0 or --expand evaluation`,
+        );
+    }
+}
+
+/**
+ * Compare the targeting of a flag in two environments (or two versions of the same environment)
+ */
+export function diffFlagEnvironment(
+    beforeFlag: Flag,
+    before: FlagEnvironment,
+    afterFlag: Flag,
+    after: FlagEnvironment,
+    options: { matchRulesById?: boolean } = {},
+): Omit<FlagChange, "environment">[] {
+    const changes: Omit<FlagChange, "environment">[] = [];
+
+    if (before.on !== after.on) {
+        changes.push({
+            field: "on",
+            description: after.on ? "Turned on" : "Turned off",
+            before: before.on,
+            after: after.on,
+        });
+    }
+    if (serveSignature(before.fallthrough) !== serveSignature(after.fallthrough)) {
+        changes.push({
+            field: "fallthrough",
+            description: `Default rule: ${describeServe(beforeFlag, before.fallthrough)} → ${describeServe(afterFlag, after.fallthrough)}`,
+            before: before.fallthrough ?? null,
+            after: after.fallthrough ?? null,
+        });
+    }
+    if ((before.offVariation ?? null) !== (after.offVariation ?? null)) {
+        changes.push({
+            field: "offVariation",
+            description: `Off variation: ${describeVariation(beforeFlag, before.offVariation)} → ${describeVariation(afterFlag, after.offVariation)}`,
+            before: before.offVariation ?? null,
+            after: after.offVariation ?? null,
+        });
+    }
+
+    changes.push(...diffPrerequisites(before, after));
+    changes.push(...diffTargets(beforeFlag, before, afterFlag, after));
+    changes.push(
+        ...diffRules(beforeFlag, before.rules ?? [], afterFlag, after.rules ?? [], options.matchRulesById ?? true),
+    );
+    return changes;
+}
+
+/**
+ * Compare two snapshots of a project, e.g. yesterday's and today's get-all-flags exports
+ */
+export function diffSnapshots(
+    before: Flag[],
+    after: Flag[],
+    options: { beforeLabel?: string; afterLabel?: string; environments?: string[] } = {},
+): SnapshotDiff {
+    const beforeByKey = new Map(before.map((flag) => [flag.key, flag]));
+    const afterByKey = new Map(after.map((flag) => [flag.key, flag]));
+
+    const diff: SnapshotDiff = {
+        before: options.beforeLabel ?? "before",
+        after: options.afterLabel ?? "after",
+        added: [...afterByKey.keys()].filter((key) => !beforeByKey.has(key)).sort(),
+        removed: [...beforeByKey.keys()].filter((key) => !afterByKey.has(key)).sort(),
+        archived: [],
+        unarchived: [],
+        changed: [],
+    };
+
+    for (const [key, afterFlag] of [...afterByKey].sort(([a], [b]) => a.localeCompare(b))) {
+        const beforeFlag = beforeByKey.get(key);
+        if (!beforeFlag) continue;
+
+        if (!beforeFlag.archived && afterFlag.archived) diff.archived.push(key);
+        if (beforeFlag.archived && !afterFlag.archived) diff.unarchived.push(key);
+
+        const environments = options.environments ??
+            Object.keys(afterFlag.environments).filter((environment) => environment in beforeFlag.environments).sort();
+        const changes: FlagChange[] = [];
+        for (const environment of environments) {
+            const beforeEnvironment = beforeFlag.environments[environment];
+            const afterEnvironment = afterFlag.environments[environment];
+            if (!beforeEnvironment || !afterEnvironment) continue;
+            assertTargeting(beforeFlag, environment);
+            assertTargeting(afterFlag, environment);
+            for (const change of diffFlagEnvironment(beforeFlag, beforeEnvironment, afterFlag, afterEnvironment)) {
+                changes.push({ environment, ...change });
+            }
+        }
+        if (changes.length > 0) {
+            diff.changed.push({ flagKey: key, changes });
+        }
+    }
+
+    return diff;
+}
+
+/**
+ * Compare two environments of the same snapshot, e.g. staging against production
+ */
+export function diffEnvironments(flags: Flag[], beforeEnvironment: string, afterEnvironment: string): EnvironmentDiff {
+    const diff: EnvironmentDiff = {
+        before: beforeEnvironment,
+        after: afterEnvironment,
+        onlyBefore: [],
+        onlyAfter: [],
+        changed: [],
+    };
+
+    for (const flag of [...flags].sort((a, b) => a.key.localeCompare(b.key))) {
+        const before = flag.environments[beforeEnvironment];
+        const after = flag.environments[afterEnvironment];
+        if (!before && !after) continue;
+        if (!before) {
+            diff.onlyAfter.push(flag.key);
+            continue;
+        }
+        if (!after) {
+            diff.onlyBefore.push(flag.key);
+            continue;
+        }
+        assertTargeting(flag, beforeEnvironment);
+        assertTargeting(flag, afterEnvironment);
+
+        // Rule IDs are different in every environment, so rules are compared by position
+        const changes = diffFlagEnvironment(flag, before, flag, after, { matchRulesById: false });
+        if (changes.length > 0) {
+            diff.changed.push({ flagKey: flag.key, changes });
+        }
+    }
+
+    return diff;
+}
+
+export function formatMarkdown(diff: SnapshotDiff | EnvironmentDiff): string {
+    const lines: string[] = [];
+    lines.push(`# Flag changes: ${diff.before} → ${diff.after}`);
+    lines.push("");
+
+    // Flag lists with their headings; comparing environments has its own instead of added/removed
+    const lists: Array<[string, string[]]> = "onlyBefore" in diff
+        ? [[`Only in ${diff.before}`, diff.onlyBefore], [`Only in ${diff.after}`, diff.onlyAfter]]
+        : [["Added", diff.added], ["Removed", diff.removed], ["Archived", diff.archived], ["Unarchived", diff.unarchived]];
+
+    const total = lists.reduce((sum, [, keys]) => sum + keys.length, diff.changed.length);
+    if (total === 0) {
+        lines.push("No differences.");
+        return lines.join("\n");
+    }
+
+    const counts = lists.map(([title, keys]) => `${keys.length} ${title[0].toLowerCase()}${title.slice(1)}`);
+    lines.push([...counts, `${diff.changed.length} changed`].join(", "));
+
+    for (const [title, keys] of lists) {
+        if (keys.length === 0) continue;
+        lines.push("");
+        lines.push(`## ${title}`);
+        lines.push("");
+        keys.forEach((key) => lines.push(`- \`${key}\``));
+    }
+
+    if (diff.changed.length > 0) {
+        lines.push("");
+        lines.push("## Changed");
+        for (const flag of diff.changed) {
+            lines.push("");
+            lines.push(`### \`${flag.flagKey}\``);
+            lines.push("");
+            for (const change of flag.changes) {
+                const environment = change.environment ? `**${change.environment}**: ` : "";
+                lines.push(`- ${environment}${change.description}`);
+            }
+        }
+    }
+
+    return lines.join("\n");
+}
+
+async function readSnapshot(filePath: string): Promise<Flag[]> {
+    const flags: Flag[] = [];
+    for await (const flag of readFlagSnapshot(filePath)) {
+        flags.push(flag);
+    }
+    return flags;
+}
+
+// Main execution
+if (import.meta.main) {
+    const usage = "Usage: diff-flags.ts <before.ndjson> <after.ndjson> [--env <keys>] [--format json|markdown]\n" +
+        "       diff-flags.ts <snapshot.ndjson> --compare-envs <env1>,<env2> [--format json|markdown]";
+
+    const positional: string[] = [];
+    let environments: string[] | undefined;
+    let compareEnvironments: string[] | undefined;
+    let format: DiffFormat = "json";
+    const splitKeys = (value: string) => value.split(",").map((key) => key.trim()).filter((key) => key);
+
+    for (let i = 0; i < Deno.args.length; i++) {
+        const arg = Deno.args[i];
+        if (!arg.startsWith("--")) {
+            positional.push(arg);
+            continue;
+        }
+
+        const value = Deno.args[i + 1];
+        try {
+            if (!value || value.startsWith("--")) {
+                throw new Error(`Missing value for ${arg}`);
+            }
+            switch (arg) {
+                case "--env":
+                    environments = splitKeys(value);
+                    break;
+                case "--compare-envs":
+                    compareEnvironments = splitKeys(value);
+                    if (compareEnvironments.length !== 2) {
+                        throw new Error("--compare-envs takes exactly two environment keys");
+                    }
+                    break;
+                case "--format":
+                    if (value !== "json" && value !== "markdown") {
+                        throw new Error("--format must be one of: json, markdown");
+                    }
+                    format = value;
+                    break;
+                default:
+                    throw new Error(`Unknown argument ${arg}`);
+            }
+        } catch (error) {
+            console.error(`Error: ${(error as Error).message}`);
+            Deno.exit(1);
+        }
+        i++; // Skip the value in the next iteration
+    }
+
+    const expected = compareEnvironments ? 1 : 2;
+    if (positional.length !== expected) {
+        console.error(compareEnvironments ? "Error: One snapshot file is required with --compare-envs" : "Error: Two snapshot files are required");
+        console.error(usage);
+        Deno.exit(1);
+    }
+
+    try {
+        let diff: SnapshotDiff | EnvironmentDiff;
+        if (compareEnvironments) {
+            const flags = await readSnapshot(positional[0]);
+            diff = diffEnvironments(flags, compareEnvironments[0], compareEnvironments[1]);
+        } else {
+            const [before, after] = await Promise.all(positional.map(readSnapshot));
+            diff = diffSnapshots(before, after, {
+                beforeLabel: positional[0],
+                afterLabel: positional[1],
+                environments,
+            });
+        }
+
+        console.log(format === "markdown" ? formatMarkdown(diff) : JSON.stringify(diff, null, 2));
+    } catch (error) {
+        console.error(`Error: ${(error as Error).message}`);
+        Deno.exit(1);
+    }
+}
@@ -0,0 +1,245 @@
+#!/usr/bin/env -S deno run --allow-read
+
+import { readFlagSnapshot } from "../get-all-flags/get-all-flags.ts";
+import { evaluateFlag, getIndividualContexts } from "../flag-eval/flag-eval.ts";
+import type { Context, EvaluationReason } from "../flag-eval/flag-eval.ts";
+import type { Flag } from "../flag-model/flag-model.ts";
+import { parseFields, parseFormat, writeRecords } from "../output-format/output-format.ts";
+import type { OutputOptions } from "../output-format/output-format.ts";
+
+export interface EnvironmentResult {
+    value: unknown;
+    variationIndex: number | null;
+    variationName: string | null;
+    reason: EvaluationReason;
+}
+
+export interface ContextEvaluation {
+    flagKey: string;
+    contextKind: string;
+    contextKey: string;
+    results: Record<string, EnvironmentResult>;   // Keyed by environment
+    differs: boolean;                               // True if the environments serve different values
+}
+
+export interface EvaluateContextsOptions {
+    environments: string[];
+    flagKeys?: string[];            // Only evaluate these flags (default: every flag in the snapshot)
+    differencesOnly?: boolean;      // Only yield results that differ between environments
+}
+
+/**
+ * Read contexts from a JSONL file, one context object per line
+ */
+export async function readContexts(filePath: string): Promise<Context[]> {
+    const text = await Deno.readTextFile(filePath);
+    const contexts: Context[] = [];
+    text.split("\n").forEach((line, index) => {
+        if (!line.trim()) return;
+        let context: unknown;
+        try {
+            context = JSON.parse(line);
+        } catch (error) {
+            throw new Error(`${filePath}:${index + 1}: ${(error as Error).message}`);
+        }
+        if (context === null || typeof context !== "object" || Array.isArray(context)) {
+            throw new Error(`${filePath}:${index + 1}: expected a context object`);
+        }
+        contexts.push(context as Context);
+    });
+    return contexts;
+}
+
+/**
+ * Describe a context as a kind and key, e.g. "user" / "abc", or "multi" / "org:acme:user:abc"
+ */
+export function describeContext(context: Context): { contextKind: string; contextKey: string } {
+    const contextKind = (context.kind as string | undefined) ?? "user";
+    if (contextKind !== "multi") {
+        return { contextKind, contextKey: String(context.key ?? "") };
+    }
+    const kinds = [...getIndividualContexts(context).entries()].sort(([a], [b]) => a.localeCompare(b));
+    return {
+        contextKind,
+        contextKey: kinds.map(([kind, individual]) => `${kind}:${individual.key ?? ""}`).join(":"),
+    };
+}
+
+// A flag exported without full targeting only has a summary of each environment
+function hasTargeting(flag: Flag, environmentKey: string): boolean {
+    const environment = flag.environments[environmentKey];
+    return environment === undefined || environment.fallthrough !== undefined;
+}
+
+function usesSegments(flag: Flag, environmentKey: string): boolean {
+    return (flag.environments[environmentKey]?.rules ?? []).some((rule) =>
+        rule.clauses.some((clause) => clause.op === "segmentMatch")
+    );
+}
+
+/**
+ * Evaluate every context against every flag of a snapshot in each environment.
+ *
+ * Segments aren't part of a flag snapshot, so segmentMatch clauses never match.
+ */
+export async function* evaluateContexts(
+    flags: Flag[],
+    contexts: Context[],
+    options: EvaluateContextsOptions,
+): AsyncGenerator<ContextEvaluation> {
+    const flagsByKey = new Map(flags.map((flag) => [flag.key, flag]));
+    const getFlag = (key: string) => flagsByKey.get(key);
+
+    for (const flagKey of options.flagKeys ?? flags.map((flag) => flag.key)) {
+        const flag = flagsByKey.get(flagKey);
+        if (!flag) {
+            throw new Error(`Flag "${flagKey}" is not in the snapshot`);
+        }
+        for (const environmentKey of options.environments) {
+            if (!hasTargeting(flag, environmentKey)) {
+                throw new Error(
+                    `Flag "${flag.key}" has no targeting for environment "${environmentKey}"; ` +
+                        `export the snapshot with --summary 0 or --expand evaluation`,
+                );
+            }
+        }
+
+        for (const context of contexts) {
+            const results: Record<string, EnvironmentResult> = {};
+            for (const environmentKey of options.environments) {
+                const result = await evaluateFlag(flag, environmentKey, context, { getFlag });
+                results[environmentKey] = {
+                    value: result.value,
+                    variationIndex: result.variationIndex,
+                    variationName: result.variationIndex !== null
+                        ? flag.variations[result.variationIndex].name ?? null
+                        : null,
+                    reason: result.reason,
+                };
+            }
+
+            const values = new Set(Object.values(results).map((result) => JSON.stringify(result.value)));
+            const differs = values.size > 1;
+            if (options.differencesOnly && !differs) continue;
+
+            yield { flagKey: flag.key, ...describeContext(context), results, differs };
+        }
+    }
+}
+
+// Main execution
+if (import.meta.main) {
+    const usage = "Usage: evaluate-contexts.ts <snapshot.ndjson> <contexts.jsonl> [--env <keys>] [--flag <keys>] " +
+        "[--differences-only] [--format <format>] [--fields <fields>]";
+
+    const positional: string[] = [];
+    let environments: string[] | undefined;
+    let flagKeys: string[] | undefined;
+    let differencesOnly = false;
+    const output: OutputOptions = {};
+    const splitKeys = (value: string) => value.split(",").map((key) => key.trim()).filter((key) => key);
+
+    for (let i = 0; i < Deno.args.length; i++) {
+        const arg = Deno.args[i];
+        if (!arg.startsWith("--")) {
+            positional.push(arg);
+            continue;
+        }
+
+        // Flags without values
+        if (arg === "--differences-only") {
+            differencesOnly = true;
+            continue;
+        }
+
+        const value = Deno.args[i + 1];
+        try {
+            if (!value || value.startsWith("--")) {
+                throw new Error(`Missing value for ${arg}`);
+            }
+            switch (arg) {
+                case "--env":
+                    environments = splitKeys(value);
+                    break;
+                case "--flag":
+                    flagKeys = splitKeys(value);
+                    break;
+                case "--format":
+                    output.format = parseFormat(value);
+                    break;
+                case "--fields":
+                    output.fields = parseFields(value);
+                    break;
+                default:
+                    throw new Error(`Unknown argument ${arg}`);
+            }
+        } catch (error) {
+            console.error(`Error: ${(error as Error).message}`);
+            Deno.exit(1);
+        }
+        i++; // Skip the value in the next iteration
+    }
+
+    const [snapshotPath, contextsPath] = positional;
+    if (!snapshotPath || !contextsPath) {
+        console.error("Error: Snapshot file and contexts file arguments are required");
+        console.error(usage);
+        Deno.exit(1);
+    }
+
+    try {
+        const flags: Flag[] = [];
+        for await (const flag of readFlagSnapshot(snapshotPath)) {
+            flags.push(flag);
+        }
+        const contexts = await readContexts(contextsPath);
+
+        // Default to every environment in the snapshot
+        environments ??= [...new Set(flags.flatMap((flag) => Object.keys(flag.environments)))].sort();
+        if (environments.length === 0) {
+            throw new Error("No environments found in the snapshot");
+        }
+
+        const segmentFlags = flags.filter((flag) =>
+            (!flagKeys || flagKeys.includes(flag.key)) &&
+            environments!.some((environmentKey) => usesSegments(flag, environmentKey))
+        );
+        if (segmentFlags.length > 0) {
+            console.error(
+                `Warning: ${segmentFlags.length} flags use segment rules, which are not evaluated ` +
+                    `(segmentMatch clauses never match)`,
+            );
+        }
+
+        console.error(
+            `Evaluating ${flagKeys?.length ?? flags.length} flags for ${contexts.length} contexts ` +
+                `in ${environments.join(", ")}...`,
+        );
+
+        let total = 0;
+        let differing = 0;
+        const counted = async function* () {
+            for await (
+                const evaluation of evaluateContexts(flags, contexts, {
+                    environments: environments!,
+                    flagKeys,
+                    differencesOnly,
+                })
+            ) {
+                total++;
+                if (evaluation.differs) differing++;
+                yield evaluation as unknown as Record<string, unknown>;
+            }
+        };
+        await writeRecords(counted(), output);
+
+        if (environments.length > 1) {
+            console.error(`${differing.toLocaleString()} results differ between environments`);
+        } else {
+            console.error(`${total.toLocaleString()} results`);
+        }
+    } catch (error) {
+        console.error(`Error: ${(error as Error).message}`);
+        Deno.exit(1);
+    }
+}
@@ -2,77 +2,9 @@
 
 import { parseArgs } from "jsr:@std/cli/parse-args";
 import { getAllFlags } from "../get-all-flags/get-all-flags.ts";
-import { getAllFlagStatuses } from "../get-all-flag-statuses/get-all-flag-statuses.ts";
-
-interface Flag {
-    key: string;
-    name?: string;
-    tags?: string[];
-    defaults?: {
-        onVariation?: number;
-        offVariation?: number;
-    };
-    prerequisites?: Array<{
-        key: string;
-        variation: number;
-    }>;
-    environments: Record<string, {
-        on: boolean;
-        fallthrough?: number | null | {
-            variations?: Array<{
-                variation: number;
-                weight: number;
-            }>;
-        };
-        offVariation?: number | null;
-        prerequisites?: Array<{
-            key: string;
-            variation: number;
-        }>;
-        rules?: Array<{
-            variation?: number;
-            rollout?: {
-                variations: Array<{
-                    variation: number;
-                    weight: number;
-                }>;
-            };
-        }>;
-        targets?: Array<{
-            variation: number;
-            values?: string[];
-        }>;
-        contextTargets?: Array<{
-            variation: number;
-            values?: string[];
-            contextKind?: string;
-        }>;
-        _summary?: {
-            prerequisites?: number;
-            variations?: Record<string, {
-                isFallthrough?: boolean;
-                isOff?: boolean;
-                rules?: number;
-                targets?: number;
-                contextTargets?: number;
-            }>;
-        };
-    }>;
-    variations: Array<{
-        value: unknown;
-        name?: string;
-        description?: string;
-    }>;
-}
-
-interface FlagStatus {
-    default?: unknown;
-    _links: {
-        parent: {
-            href: string;
-        };
-    };
-}
+import { getFlagStatusMap } from "../get-all-flag-statuses/get-all-flag-statuses.ts";
+import { parseFlag } from "../flag-model/flag-model.ts";
+import type { Flag, FlagStatus } from "../flag-model/flag-model.ts";
 
 interface ImpactedUser {
     type: "target" | "contextTarget" | "rule" | "fallthrough";
@@ -109,11 +41,6 @@ interface Issue {
     environmentOn: boolean;
 }
 
-function extractFlagKeyFromHref(href: string): string | null {
-    const match = href.match(/\/api\/v2\/flags\/[^/]+\/(.+)$/);
-    return match ? match[1] : null;
-}
-
 function getVariationDisplayName(
     flag: Flag,
     variationIndex: number,
@@ -1119,7 +1046,6 @@ async function generateFallbackReport(
 ): Promise<{ issues: Issue[]; flagsMap: Map<string, Flag> }> {
     const issues: Issue[] = [];
     const flagsMap = new Map<string, Flag>();
-    const statusesMap = new Map<string, FlagStatus>();
 
     // Fetch flags with environment-specific data
     const parameters = new URLSearchParams();
@@ -1128,18 +1054,12 @@ async function generateFallbackReport(
     parameters.append("summary", "0");
 
     for await (const flag of getAllFlags(projectKey, apiKey, parameters)) {
-        const flagData = flag as unknown as Flag;
+        const flagData = parseFlag(flag);
         flagsMap.set(flagData.key, flagData);
     }
 
-    // Fetch flag statuses
-    for await (const status of getAllFlagStatuses(projectKey, environmentKey, apiKey)) {
-        const statusData = status as unknown as FlagStatus;
-        const flagKey = extractFlagKeyFromHref(statusData._links.parent.href);
-        if (flagKey) {
-            statusesMap.set(flagKey, statusData);
-        }
-    }
+    // Fetch flag statuses, keyed by flag key
+    const statusesMap = await getFlagStatusMap(projectKey, environmentKey, apiKey);
 
     // Analyze each flag
     for (const [flagKey, flag] of flagsMap) {
@@ -0,0 +1,274 @@
+#!/usr/bin/env -S deno run --allow-net --allow-env
+
+import {
+    describeActor,
+    getAllAuditLogEntries,
+    getAuditLogEntry,
+    toMilliseconds,
+} from "../get-all-audit-log-entries/get-all-audit-log-entries.ts";
+import type { AuditLogEntry } from "../get-all-audit-log-entries/get-all-audit-log-entries.ts";
+import {
+    getApiKeyFromEnv,
+    getBaseUrlFromEnv,
+    getJson,
+    LaunchDarklyApiError,
+    normalizeBaseUrl,
+} from "../ld-client/ld-client.ts";
+import type { ClientOptions } from "../ld-client/ld-client.ts";
+import type { Flag, FlagEnvironment } from "../flag-model/flag-model.ts";
+
+/**
+ * Where a reconstructed part of the flag came from
+ */
+export interface ConfigurationSource {
+    kind: "after-change" | "before-change" | "current";   // State after an earlier change, before a later one, or unchanged since
+    entryId: string | null;
+    date: number | null;
+    actor: string | null;
+    description: string | null;
+}
+
+export interface ReconstructedFlag {
+    projectKey: string;
+    flagKey: string;
+    timestamp: number;
+    flag: Flag;
+    sources: {
+        flag: ConfigurationSource;                          // Flag-level settings such as variations
+        environments: Record<string, ConfigurationSource>;
+    };
+}
+
+export interface ReconstructOptions extends ClientOptions {
+    environments?: string[];                    // Only reconstruct these environments (default: all)
+    onEntry?: (entry: AuditLogEntry) => void;   // Called for each audit entry whose detail is fetched
+}
+
+function hasAction(entry: AuditLogEntry, action: string): boolean {
+    return entry.accesses?.some((access) => access.action === action) ?? false;
+}
+
+async function getCurrentFlag(
+    apiKey: string,
+    projectKey: string,
+    flagKey: string,
+    options: ClientOptions,
+): Promise<Flag | null> {
+    try {
+        return await getJson<Flag>(apiKey, `/api/v2/flags/${projectKey}/${flagKey}`, options);
+    } catch (error) {
+        // The flag may have been deleted since
+        if (error instanceof LaunchDarklyApiError && error.status === 404) {
+            return null;
+        }
+        throw error;
+    }
+}
+
+/**
+ * Reconstruct a flag's configuration as it was at `timestamp` from its audit history.
+ *
+ * Each environment is taken from the last change at or before the timestamp
+ * (its `currentVersion`), or, if there was none, from the first change after it
+ * (its `previousVersion`). Environments that haven't changed since the
+ * timestamp come from the flag as it is now. Audit entry detail is only fetched
+ * until every environment is accounted for.
+ */
+export async function reconstructFlag(
+    apiKey: string,
+    projectKey: string,
+    flagKey: string,
+    timestamp: number,
+    options: ReconstructOptions = {},
+): Promise<ReconstructedFlag> {
+    const clientOptions: ClientOptions = { baseUrl: options.baseUrl, retry: options.retry };
+    const currentFlag = await getCurrentFlag(apiKey, projectKey, flagKey, clientOptions);
+
+    const entries: AuditLogEntry[] = [];
+    for await (
+        const entry of getAllAuditLogEntries(apiKey, {
+            spec: `proj/${projectKey}:env/*:flag/${flagKey}`,
+            baseUrl: options.baseUrl,
+            retry: options.retry,
+        })
+    ) {
+        entries.push(entry as unknown as AuditLogEntry);
+    }
+    entries.sort((a, b) => b.date - a.date);
+
+    const earlier = entries.filter((entry) => entry.date <= timestamp);           // Newest first
+    const later = entries.filter((entry) => entry.date > timestamp).reverse();    // Oldest first
+
+    const when = new Date(timestamp).toISOString();
+    if (earlier.length > 0 && hasAction(earlier[0], "deleteFlag")) {
+        throw new Error(`Flag "${flagKey}" had been deleted by ${when}`);
+    }
+    if (earlier.length === 0 && later.length > 0 && hasAction(later[0], "createFlag")) {
+        throw new Error(`Flag "${flagKey}" did not exist yet at ${when}`);
+    }
+    if (entries.length === 0 && !currentFlag) {
+        throw new Error(`Flag "${flagKey}" not found in project "${projectKey}" and has no audit history`);
+    }
+
+    const wanted = (environment: string) => !options.environments || options.environments.includes(environment);
+    const expected = options.environments ?? (currentFlag ? Object.keys(currentFlag.environments) : null);
+
+    let flagLevel: { version: Partial<Flag>; source: ConfigurationSource } | null = null;
+    const environments = new Map<string, { config: FlagEnvironment; source: ConfigurationSource }>();
+
+    const resolve = (version: Partial<Flag> | null | undefined, source: ConfigurationSource) => {
+        if (!version) return;
+        if (!flagLevel) {
+            flagLevel = { version, source };
+        }
+        for (const [environment, config] of Object.entries(version.environments ?? {})) {
+            if (wanted(environment) && !environments.has(environment)) {
+                environments.set(environment, { config, source });
+            }
+        }
+    };
+
+    // Without the current flag we can't tell which environments exist, so read the whole history
+    const isComplete = () => flagLevel !== null && expected !== null && expected.every((environment) => environments.has(environment));
+
+    const sourceOf = (entry: AuditLogEntry, kind: ConfigurationSource["kind"]): ConfigurationSource => ({
+        kind,
+        entryId: entry._id,
+        date: entry.date,
+        actor: describeActor(entry),
+        description: entry.description ?? entry.titleVerb ?? null,
+    });
+
+    for (const entry of earlier) {
+        if (isComplete()) break;
+        options.onEntry?.(entry);
+        const detail = await getAuditLogEntry(apiKey, entry._id, clientOptions);
+        resolve(detail.currentVersion, sourceOf(detail, "after-change"));
+    }
+
+    for (const entry of later) {
+        if (isComplete()) break;
+        options.onEntry?.(entry);
+        const detail = await getAuditLogEntry(apiKey, entry._id, clientOptions);
+        resolve(detail.previousVersion, sourceOf(detail, "before-change"));
+    }
+
+    // Anything not touched by the history since is the same as now
+    const current: ConfigurationSource = { kind: "current", entryId: null, date: null, actor: null, description: null };
+    resolve(currentFlag, current);
+
+    if (!flagLevel) {
+        throw new Error(`Could not reconstruct flag "${flagKey}": its audit entries have no version detail`);
+    }
+    const { version, source } = flagLevel as { version: Partial<Flag>; source: ConfigurationSource };
+
+    const sortedEnvironments = [...environments.keys()].sort();
+    return {
+        projectKey,
+        flagKey,
+        timestamp,
+        flag: {
+            ...version,
+            key: flagKey,
+            variations: version.variations ?? [],
+            environments: Object.fromEntries(
+                sortedEnvironments.map((environment) => [environment, environments.get(environment)!.config]),
+            ),
+        } as Flag,
+        sources: {
+            flag: source,
+            environments: Object.fromEntries(
+                sortedEnvironments.map((environment) => [environment, environments.get(environment)!.source]),
+            ),
+        },
+    };
+}
+
+// Main execution
+if (import.meta.main) {
+    const API_KEY = getApiKeyFromEnv();
+    if (!API_KEY) {
+        console.error(
+            "Error: LAUNCHDARKLY_API_KEY or LD_API_KEY environment variable is required",
+        );
+        Deno.exit(1);
+    }
+
+    const usage = "Usage: flag-at-time.ts <project-key> <flag-key> <timestamp> [--env <keys>] [--snapshot] [--base-url <url>]";
+
+    let baseUrl = getBaseUrlFromEnv();
+    const positional: string[] = [];
+    let environments: string[] | undefined;
+    let snapshot = false;
+
+    for (let i = 0; i < Deno.args.length; i++) {
+        const arg = Deno.args[i];
+        if (!arg.startsWith("--")) {
+            positional.push(arg);
+            continue;
+        }
+
+        // Flags without values
+        if (arg === "--snapshot") {
+            snapshot = true;
+            continue;
+        }
+
+        const value = Deno.args[i + 1];
+        if (!value || value.startsWith("--")) {
+            console.error(`Error: Missing value for ${arg}`);
+            Deno.exit(1);
+        }
+
+        switch (arg) {
+            case "--env":
+                environments = value.split(",").map((key) => key.trim()).filter((key) => key);
+                break;
+            case "--base-url":
+                baseUrl = normalizeBaseUrl(value);
+                break;
+            default:
+                console.error(`Error: Unknown argument ${arg}`);
+                Deno.exit(1);
+        }
+        i++; // Skip the value in the next iteration
+    }
+
+    if (positional.length !== 3) {
+        console.error("Error: Project key, flag key and timestamp arguments are required");
+        console.error(usage);
+        Deno.exit(1);
+    }
+
+    const [projectKey, flagKey, timestampArg] = positional;
+    let timestamp: number;
+    try {
+        timestamp = toMilliseconds(timestampArg);
+    } catch (error) {
+        console.error(`Error: ${(error as Error).message}`);
+        Deno.exit(1);
+    }
+
+    try {
+        console.error(`Reconstructing ${projectKey}/${flagKey} as of ${new Date(timestamp).toISOString()}...`);
+        let fetched = 0;
+        const result = await reconstructFlag(API_KEY, projectKey, flagKey, timestamp, {
+            baseUrl,
+            environments,
+            onEntry: () => fetched++,
+        });
+        console.error(`Used ${fetched.toLocaleString()} audit log entries`);
+
+        for (const environment of environments ?? []) {
+            if (!(environment in result.flag.environments)) {
+                console.error(`Warning: No configuration found for environment "${environment}"`);
+            }
+        }
+
+        // A snapshot line can be fed to diff-flags or evaluate-contexts
+        console.log(snapshot ? JSON.stringify(result.flag) : JSON.stringify(result, null, 2));
+    } catch (error) {
+        console.error(`Error: ${(error as Error).message}`);
+        Deno.exit(1);
+    }
+}
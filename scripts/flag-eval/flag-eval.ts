@@ -0,0 +1,473 @@
+/**
+ * Local flag evaluation: work out which variation a context would receive from
+ * a flag configuration, without calling LaunchDarkly.
+ *
+ * Follows the server-side SDK evaluation order: off, prerequisites, individual
+ * targets, rules (all clause operators, segments, percentage rollouts) and the
+ * fallthrough. Bucketing uses the same SHA-1 hash as the SDKs, so rollouts put
+ * a context in the same bucket it would get in production.
+ */
+
+import type {
+    Clause,
+    Flag,
+    FlagEnvironment,
+    Rollout,
+    Segment,
+    Target,
+    VariationOrRollout,
+} from "../flag-model/flag-model.ts";
+
+/**
+ * A context, e.g. `{ kind: "user", key: "abc" }`, or a multi-kind context such as
+ * `{ kind: "multi", user: { key: "abc" }, org: { key: "acme" } }`. A context
+ * without `kind` is treated as a user.
+ */
+export type Context = Record<string, unknown>;
+
+export interface EvaluationReason {
+    kind: "OFF" | "FALLTHROUGH" | "TARGET_MATCH" | "RULE_MATCH" | "PREREQUISITE_FAILED" | "ERROR";
+    ruleIndex?: number;
+    ruleId?: string;
+    prerequisiteKey?: string;
+    inExperiment?: boolean;
+    errorKind?: "MALFORMED_FLAG" | "ENVIRONMENT_NOT_FOUND" | "PREREQUISITE_CYCLE";
+}
+
+export interface EvaluationResult {
+    value: unknown;                  // null when no variation is served
+    variationIndex: number | null;
+    reason: EvaluationReason;
+}
+
+export interface EvaluationOptions {
+    getFlag?: (key: string) => Flag | undefined;         // Used to evaluate prerequisites
+    getSegment?: (key: string) => Segment | undefined;   // Used by segmentMatch clauses
+}
+
+// Largest value of the first 15 hex digits of a SHA-1 hash
+const LONG_SCALE = 0xFFFFFFFFFFFFFFF;
+
+// Split a context into its individual contexts, keyed by kind
+export function getIndividualContexts(context: Context): Map<string, Context> {
+    const contexts = new Map<string, Context>();
+    const kind = (context.kind as string | undefined) ?? "user";
+    if (kind !== "multi") {
+        contexts.set(kind, context);
+        return contexts;
+    }
+    for (const [key, value] of Object.entries(context)) {
+        if (key !== "kind" && value !== null && typeof value === "object") {
+            contexts.set(key, { ...(value as Context), kind: key });
+        }
+    }
+    return contexts;
+}
+
+// Resolve an attribute name, or an attribute reference like "/address/city"
+function getAttribute(context: Context, attribute: string, isReference: boolean): unknown {
+    if (isReference && attribute.startsWith("/")) {
+        let value: unknown = context;
+        for (const part of attribute.slice(1).split("/")) {
+            const name = part.replace(/~1/g, "/").replace(/~0/g, "~");
+            if (value === null || typeof value !== "object" || Array.isArray(value)) {
+                return undefined;
+            }
+            value = (value as Record<string, unknown>)[name];
+        }
+        return value;
+    }
+
+    if (attribute in context) {
+        return context[attribute];
+    }
+    // Old-style user objects keep custom attributes under `custom`
+    const custom = context.custom as Record<string, unknown> | undefined;
+    return custom?.[attribute];
+}
+
+interface SemVer {
+    major: number;
+    minor: number;
+    patch: number;
+    prerelease: string[];
+}
+
+function parseSemVer(value: unknown): SemVer | null {
+    if (typeof value !== "string") return null;
+    const match = value.match(/^(\d+)(?:\.(\d+))?(?:\.(\d+))?(?:-([0-9A-Za-z.-]+))?(?:\+[0-9A-Za-z.-]+)?$/);
+    if (!match) return null;
+    return {
+        major: Number(match[1]),
+        minor: Number(match[2] ?? 0),
+        patch: Number(match[3] ?? 0),
+        prerelease: match[4] ? match[4].split(".") : [],
+    };
+}
+
+function compareSemVer(a: SemVer, b: SemVer): number {
+    for (const part of ["major", "minor", "patch"] as const) {
+        if (a[part] !== b[part]) return a[part] < b[part] ? -1 : 1;
+    }
+    // A version without a prerelease ranks above the same version with one
+    if (a.prerelease.length === 0 || b.prerelease.length === 0) {
+        return b.prerelease.length - a.prerelease.length;
+    }
+    for (let i = 0; i < Math.max(a.prerelease.length, b.prerelease.length); i++) {
+        const x = a.prerelease[i];
+        const y = b.prerelease[i];
+        if (x === undefined) return -1;
+        if (y === undefined) return 1;
+        if (x === y) continue;
+        const xNumeric = /^\d+$/.test(x);
+        const yNumeric = /^\d+$/.test(y);
+        if (xNumeric && yNumeric) return Number(x) < Number(y) ? -1 : 1;
+        if (xNumeric !== yNumeric) return xNumeric ? -1 : 1;
+        return x < y ? -1 : 1;
+    }
+    return 0;
+}
+
+function parseDate(value: unknown): number | null {
+    if (typeof value === "number") return value;
+    if (typeof value !== "string") return null;
+    const date = Date.parse(value);
+    return isNaN(date) ? null : date;
+}
+
+export function matchesOperator(op: string, contextValue: unknown, clauseValue: unknown): boolean {
+    switch (op) {
+        case "in":
+            return contextValue === clauseValue;
+        case "startsWith":
+            return typeof contextValue === "string" && typeof clauseValue === "string" &&
+                contextValue.startsWith(clauseValue);
+        case "endsWith":
+            return typeof contextValue === "string" && typeof clauseValue === "string" &&
+                contextValue.endsWith(clauseValue);
+        case "contains":
+            return typeof contextValue === "string" && typeof clauseValue === "string" &&
+                contextValue.includes(clauseValue);
+        case "matches":
+            if (typeof contextValue !== "string" || typeof clauseValue !== "string") return false;
+            try {
+                return new RegExp(clauseValue).test(contextValue);
+            } catch {
+                return false;
+            }
+        case "lessThan":
+        case "lessThanOrEqual":
+        case "greaterThan":
+        case "greaterThanOrEqual": {
+            if (typeof contextValue !== "number" || typeof clauseValue !== "number") return false;
+            if (op === "lessThan") return contextValue < clauseValue;
+            if (op === "lessThanOrEqual") return contextValue <= clauseValue;
+            if (op === "greaterThan") return contextValue > clauseValue;
+            return contextValue >= clauseValue;
+        }
+        case "before":
+        case "after": {
+            const a = parseDate(contextValue);
+            const b = parseDate(clauseValue);
+            if (a === null || b === null) return false;
+            return op === "before" ? a < b : a > b;
+        }
+        case "semVerEqual":
+        case "semVerLessThan":
+        case "semVerGreaterThan": {
+            const a = parseSemVer(contextValue);
+            const b = parseSemVer(clauseValue);
+            if (!a || !b) return false;
+            const comparison = compareSemVer(a, b);
+            if (op === "semVerEqual") return comparison === 0;
+            return op === "semVerLessThan" ? comparison < 0 : comparison > 0;
+        }
+        default:
+            return false;
+    }
+}
+
+/**
+ * Compute a context's bucket in [0, 1) for a rollout, the same way the SDKs do
+ */
+export async function getBucket(
+    context: Context,
+    key: string,
+    salt: string,
+    options: { bucketBy?: string; contextKind?: string; seed?: number } = {},
+): Promise<number> {
+    const individual = getIndividualContexts(context).get(options.contextKind ?? "user");
+    if (!individual) return 0;
+
+    const bucketBy = options.bucketBy ?? "key";
+    const value = getAttribute(individual, bucketBy, bucketBy.startsWith("/"));
+    let bucketValue: string;
+    if (typeof value === "string") {
+        bucketValue = value;
+    } else if (typeof value === "number" && Number.isInteger(value)) {
+        bucketValue = String(value);
+    } else {
+        return 0;
+    }
+
+    const input = options.seed !== undefined && options.seed !== null
+        ? `${options.seed}.${bucketValue}`
+        : `${key}.${salt}.${bucketValue}`;
+    const digest = await crypto.subtle.digest("SHA-1", new TextEncoder().encode(input));
+    const hex = Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, "0")).join("");
+    return parseInt(hex.substring(0, 15), 16) / LONG_SCALE;
+}
+
+interface Evaluator {
+    options: EvaluationOptions;
+    visitingFlags: string[];        // Flags being evaluated up the prerequisite chain
+    visitingSegments: string[];     // Segments being evaluated, for segments that reference segments
+}
+
+async function matchSegment(segment: Segment, context: Context, state: Evaluator): Promise<boolean> {
+    if (segment.unbounded) {
+        // Big segment membership lives outside the segment configuration
+        return false;
+    }
+
+    const contexts = getIndividualContexts(context);
+    const userKey = contexts.get("user")?.key as string | undefined;
+    const hasKey = (targets: Segment["includedContexts"]) =>
+        (targets ?? []).some((target) => {
+            const individual = contexts.get(target.contextKind);
+            return individual !== undefined && target.values.includes(individual.key as string);
+        });
+
+    if (userKey !== undefined && segment.included?.includes(userKey)) return true;
+    if (hasKey(segment.includedContexts)) return true;
+    if (userKey !== undefined && segment.excluded?.includes(userKey)) return false;
+    if (hasKey(segment.excludedContexts)) return false;
+
+    for (const rule of segment.rules ?? []) {
+        let matches = true;
+        for (const clause of rule.clauses) {
+            if (!await matchClause(clause, context, state)) {
+                matches = false;
+                break;
+            }
+        }
+        if (!matches) continue;
+        if (rule.weight === undefined || rule.weight === null) return true;
+
+        const bucket = await getBucket(context, segment.key, segment.salt ?? "", {
+            bucketBy: rule.bucketBy,
+            contextKind: rule.rolloutContextKind,
+        });
+        return bucket < rule.weight / 100000;
+    }
+    return false;
+}
+
+async function matchClause(clause: Clause, context: Context, state: Evaluator): Promise<boolean> {
+    if (clause.op === "segmentMatch") {
+        let matches = false;
+        for (const key of clause.values as string[]) {
+            if (state.visitingSegments.includes(key)) continue;
+            const segment = state.options.getSegment?.(key);
+            if (!segment) continue;
+            state.visitingSegments.push(key);
+            try {
+                matches = await matchSegment(segment, context, state);
+            } finally {
+                state.visitingSegments.pop();
+            }
+            if (matches) break;
+        }
+        return matches !== (clause.negate ?? false);
+    }
+
+    const contexts = getIndividualContexts(context);
+
+    // The "kind" attribute matches against the kinds present in the context
+    if (clause.attribute === "kind") {
+        const matches = [...contexts.keys()].some((kind) =>
+            clause.values.some((value) => matchesOperator(clause.op, kind, value))
+        );
+        return matches !== (clause.negate ?? false);
+    }
+
+    // A clause about a kind the context doesn't have never matches, even when negated
+    const individual = contexts.get(clause.contextKind ?? "user");
+    if (!individual) return false;
+    const value = getAttribute(individual, clause.attribute, clause.contextKind !== undefined);
+    if (value === undefined || value === null) return false;
+
+    const values = Array.isArray(value) ? value : [value];
+    const matches = values.some((item) => clause.values.some((clauseValue) => matchesOperator(clause.op, item, clauseValue)));
+    return matches !== (clause.negate ?? false);
+}
+
+function result(flag: Flag, variationIndex: number | null | undefined, reason: EvaluationReason): EvaluationResult {
+    if (variationIndex === null || variationIndex === undefined) {
+        return { value: null, variationIndex: null, reason };
+    }
+    if (variationIndex < 0 || variationIndex >= flag.variations.length) {
+        return { value: null, variationIndex: null, reason: { kind: "ERROR", errorKind: "MALFORMED_FLAG" } };
+    }
+    return { value: flag.variations[variationIndex].value, variationIndex, reason };
+}
+
+// Pick the variation for a fallthrough or rule, bucketing the context if it's a rollout
+async function resolveVariation(
+    flag: Flag,
+    environment: FlagEnvironment,
+    target: number | VariationOrRollout | null | undefined,
+    context: Context,
+): Promise<{ variationIndex: number | null; inExperiment?: boolean }> {
+    if (target === null || target === undefined) return { variationIndex: null };
+    if (typeof target === "number") return { variationIndex: target };
+    if (target.variation !== undefined && target.variation !== null) return { variationIndex: target.variation };
+
+    const rollout: Rollout | undefined = target.rollout ??
+        (target.variations ? { variations: target.variations } : undefined);
+    if (!rollout || rollout.variations.length === 0) return { variationIndex: null };
+
+    const isExperiment = rollout.experimentAllocation !== undefined ||
+        (target.rollout as { kind?: string } | undefined)?.kind === "experiment";
+    const contextKind = rollout.contextKind ?? "user";
+    const hasKind = getIndividualContexts(context).has(contextKind);
+    const bucket = await getBucket(context, flag.key, environment.salt ?? flag.salt ?? "", {
+        // Experiments always bucket by key
+        bucketBy: isExperiment ? "key" : rollout.bucketBy,
+        contextKind,
+        seed: rollout.seed,
+    });
+
+    let sum = 0;
+    for (const weighted of rollout.variations) {
+        sum += weighted.weight / 100000;
+        if (bucket < sum) {
+            return { variationIndex: weighted.variation, inExperiment: isExperiment && hasKind && !weighted._untracked };
+        }
+    }
+    // Rounding can leave the bucket just past the last weight
+    const last = rollout.variations[rollout.variations.length - 1];
+    return { variationIndex: last.variation, inExperiment: isExperiment && hasKind && !last._untracked };
+}
+
+function matchTargets(environment: FlagEnvironment, context: Context): number | null {
+    const contexts = getIndividualContexts(context);
+    const hasKey = (target: Target, kind: string) => {
+        const individual = contexts.get(kind);
+        return individual !== undefined && (target.values ?? []).includes(individual.key as string);
+    };
+
+    const contextTargets = environment.contextTargets ?? [];
+    if (contextTargets.length === 0) {
+        return (environment.targets ?? []).find((target) => hasKey(target, "user"))?.variation ?? null;
+    }
+
+    for (const contextTarget of contextTargets) {
+        const kind = contextTarget.contextKind ?? "user";
+        // User targets are stored in `targets`; the contextTarget only marks their position in the order
+        if (kind === "user" && (contextTarget.values ?? []).length === 0) {
+            const userTarget = (environment.targets ?? []).find((target) => target.variation === contextTarget.variation);
+            if (userTarget && hasKey(userTarget, "user")) return userTarget.variation;
+        } else if (hasKey(contextTarget, kind)) {
+            return contextTarget.variation;
+        }
+    }
+    return null;
+}
+
+async function evaluateWithState(
+    flag: Flag,
+    environmentKey: string,
+    context: Context,
+    state: Evaluator,
+): Promise<EvaluationResult> {
+    const environment = flag.environments[environmentKey];
+    if (!environment) {
+        return { value: null, variationIndex: null, reason: { kind: "ERROR", errorKind: "ENVIRONMENT_NOT_FOUND" } };
+    }
+
+    if (!environment.on) {
+        return result(flag, environment.offVariation, { kind: "OFF" });
+    }
+
+    for (const prerequisite of environment.prerequisites ?? []) {
+        if (state.visitingFlags.includes(prerequisite.key)) {
+            return { value: null, variationIndex: null, reason: { kind: "ERROR", errorKind: "PREREQUISITE_CYCLE" } };
+        }
+        const failed = { kind: "PREREQUISITE_FAILED" as const, prerequisiteKey: prerequisite.key };
+        const prerequisiteFlag = state.options.getFlag?.(prerequisite.key);
+        if (!prerequisiteFlag) {
+            return result(flag, environment.offVariation, failed);
+        }
+
+        state.visitingFlags.push(prerequisite.key);
+        let prerequisiteResult: EvaluationResult;
+        try {
+            prerequisiteResult = await evaluateWithState(prerequisiteFlag, environmentKey, context, state);
+        } finally {
+            state.visitingFlags.pop();
+        }
+        if (prerequisiteResult.reason.kind === "ERROR") {
+            return prerequisiteResult;
+        }
+
+        const prerequisiteOn = prerequisiteFlag.environments[environmentKey]?.on ?? false;
+        if (!prerequisiteOn || prerequisiteResult.variationIndex !== prerequisite.variation) {
+            return result(flag, environment.offVariation, failed);
+        }
+    }
+
+    const targetVariation = matchTargets(environment, context);
+    if (targetVariation !== null) {
+        return result(flag, targetVariation, { kind: "TARGET_MATCH" });
+    }
+
+    const rules = environment.rules ?? [];
+    for (let ruleIndex = 0; ruleIndex < rules.length; ruleIndex++) {
+        const rule = rules[ruleIndex];
+        let matches = true;
+        for (const clause of rule.clauses) {
+            if (!await matchClause(clause, context, state)) {
+                matches = false;
+                break;
+            }
+        }
+        if (!matches) continue;
+
+        const { variationIndex, inExperiment } = await resolveVariation(flag, environment, rule, context);
+        if (variationIndex === null) {
+            return { value: null, variationIndex: null, reason: { kind: "ERROR", errorKind: "MALFORMED_FLAG" } };
+        }
+        return result(flag, variationIndex, {
+            kind: "RULE_MATCH",
+            ruleIndex,
+            ruleId: rule._id,
+            ...(inExperiment ? { inExperiment } : {}),
+        });
+    }
+
+    const { variationIndex, inExperiment } = await resolveVariation(flag, environment, environment.fallthrough, context);
+    if (variationIndex === null) {
+        return { value: null, variationIndex: null, reason: { kind: "ERROR", errorKind: "MALFORMED_FLAG" } };
+    }
+    return result(flag, variationIndex, { kind: "FALLTHROUGH", ...(inExperiment ? { inExperiment } : {}) });
+}
+
+/**
+ * Evaluate a flag for a context in one environment of a flag configuration.
+ *
+ * Pass `getFlag` to evaluate prerequisites and `getSegment` to evaluate
+ * segmentMatch clauses; without them, prerequisites fail and segments don't match.
+ */
+export function evaluateFlag(
+    flag: Flag,
+    environmentKey: string,
+    context: Context,
+    options: EvaluationOptions = {},
+): Promise<EvaluationResult> {
+    return evaluateWithState(flag, environmentKey, context, {
+        options,
+        visitingFlags: [flag.key],
+        visitingSegments: [],
+    });
+}
@@ -0,0 +1,354 @@
+#!/usr/bin/env -S deno run --allow-net --allow-env --allow-write
+
+import {
+    describeActor,
+    getAllAuditLogEntries,
+    getAuditLogEntry,
+    toMilliseconds,
+} from "../get-all-audit-log-entries/get-all-audit-log-entries.ts";
+import type { AuditLogEntry } from "../get-all-audit-log-entries/get-all-audit-log-entries.ts";
+import { getApiKeyFromEnv, getBaseUrlFromEnv, normalizeBaseUrl } from "../ld-client/ld-client.ts";
+import type { ClientOptions } from "../ld-client/ld-client.ts";
+import { diffFlagEnvironment } from "../diff-flags/diff-flags.ts";
+import type { ChangeField } from "../diff-flags/diff-flags.ts";
+import type { Flag } from "../flag-model/flag-model.ts";
+import { generateHTML } from "./html.ts";
+
+export interface TimelineChange {
+    environment?: string;               // Unset for changes to the flag as a whole
+    field: ChangeField | "flag";
+    description: string;
+    before?: unknown;
+    after?: unknown;
+}
+
+export interface TimelineEvent {
+    id: string;
+    date: number;
+    actor: string;
+    actions: string[];                  // e.g. ["updateOn"], ["updateRules", "updateFallthrough"]
+    environments: string[];             // Environments the entry says it touched; "*" for the whole flag
+    description: string | null;         // The audit log's own description of the change
+    comment: string | null;
+    changes: TimelineChange[];          // Structured before/after diff, when the entry has version detail
+}
+
+export interface FlagHistory {
+    projectKey: string;
+    flagKey: string;
+    flagName: string | null;
+    after: number | null;
+    before: number | null;
+    events: TimelineEvent[];            // Oldest first
+}
+
+export interface FlagHistoryOptions extends ClientOptions {
+    after?: number;
+    before?: number;
+    onEntry?: (entry: AuditLogEntry, index: number, total: number) => void;
+}
+
+export type HistoryFormat = "markdown" | "json" | "html";
+
+function getEnvironments(entry: AuditLogEntry): string[] {
+    const environments = new Set<string>();
+    for (const access of entry.accesses ?? []) {
+        const match = access.resource.match(/:env\/([^:]+):/);
+        if (match) environments.add(match[1]);
+    }
+    return [...environments].sort();
+}
+
+function formatValue(value: unknown): string {
+    return typeof value === "string" ? value : JSON.stringify(value);
+}
+
+// Changes to the flag as a whole rather than to one environment's targeting
+function diffFlagSettings(before: Partial<Flag>, after: Partial<Flag>): TimelineChange[] {
+    const changes: TimelineChange[] = [];
+    const change = (description: string, previous: unknown, current: unknown) =>
+        changes.push({ field: "flag", description, before: previous ?? null, after: current ?? null });
+
+    if (before.name !== after.name) {
+        change(`Renamed from "${before.name ?? ""}" to "${after.name ?? ""}"`, before.name, after.name);
+    }
+    if ((before.description ?? "") !== (after.description ?? "")) {
+        change("Description changed", before.description, after.description);
+    }
+    if (!before.archived && after.archived) change("Archived", false, true);
+    if (before.archived && !after.archived) change("Restored from archive", true, false);
+    if (!before.deprecated && after.deprecated) change("Deprecated", false, true);
+    if ((before.temporary ?? false) !== (after.temporary ?? false)) {
+        change(after.temporary ? "Marked temporary" : "Marked permanent", before.temporary, after.temporary);
+    }
+
+    const beforeTags = new Set(before.tags ?? []);
+    const afterTags = new Set(after.tags ?? []);
+    const addedTags = [...afterTags].filter((tag) => !beforeTags.has(tag));
+    const removedTags = [...beforeTags].filter((tag) => !afterTags.has(tag));
+    if (addedTags.length > 0 || removedTags.length > 0) {
+        const parts = [
+            addedTags.length > 0 ? `added ${addedTags.join(", ")}` : "",
+            removedTags.length > 0 ? `removed ${removedTags.join(", ")}` : "",
+        ].filter((part) => part);
+        change(`Tags ${parts.join(", ")}`, before.tags, after.tags);
+    }
+
+    const beforeVariations = before.variations ?? [];
+    const afterVariations = after.variations ?? [];
+    for (let index = 0; index < Math.max(beforeVariations.length, afterVariations.length); index++) {
+        const previous = beforeVariations[index];
+        const current = afterVariations[index];
+        if (!previous) {
+            change(`Variation ${index} added: ${current.name ?? formatValue(current.value)}`, null, current);
+        } else if (!current) {
+            change(`Variation ${index} removed: ${previous.name ?? formatValue(previous.value)}`, previous, null);
+        } else if (
+            JSON.stringify(previous.value) !== JSON.stringify(current.value) || previous.name !== current.name
+        ) {
+            change(
+                `Variation ${index} changed: ${previous.name ?? formatValue(previous.value)} → ${current.name ?? formatValue(current.value)}`,
+                previous,
+                current,
+            );
+        }
+    }
+
+    return changes;
+}
+
+/**
+ * Work out what an audit entry changed from the flag before and after it
+ */
+export function diffEntry(entry: AuditLogEntry): TimelineChange[] {
+    const before = entry.previousVersion;
+    const after = entry.currentVersion;
+    if (!before && after) {
+        return [{ field: "flag", description: "Flag created", after }];
+    }
+    if (before && !after) {
+        return [{ field: "flag", description: "Flag deleted", before }];
+    }
+    if (!before || !after) {
+        return [];
+    }
+
+    const changes = diffFlagSettings(before, after);
+    const beforeFlag = { ...before, key: before.key ?? "", variations: before.variations ?? [], environments: before.environments ?? {} } as Flag;
+    const afterFlag = { ...after, key: after.key ?? "", variations: after.variations ?? [], environments: after.environments ?? {} } as Flag;
+
+    const environments = new Set([...Object.keys(beforeFlag.environments), ...Object.keys(afterFlag.environments)]);
+    for (const environment of [...environments].sort()) {
+        const previous = beforeFlag.environments[environment];
+        const current = afterFlag.environments[environment];
+        if (!previous || !current) continue;
+        for (const change of diffFlagEnvironment(beforeFlag, previous, afterFlag, current)) {
+            changes.push({ environment, ...change });
+        }
+    }
+    return changes;
+}
+
+/**
+ * Gather every change to one flag from the audit log, oldest first, with a structured diff of each
+ */
+export async function getFlagHistory(
+    apiKey: string,
+    projectKey: string,
+    flagKey: string,
+    options: FlagHistoryOptions = {},
+): Promise<FlagHistory> {
+    const clientOptions: ClientOptions = { baseUrl: options.baseUrl, retry: options.retry };
+
+    const entries: AuditLogEntry[] = [];
+    for await (
+        const entry of getAllAuditLogEntries(apiKey, {
+            spec: `proj/${projectKey}:env/*:flag/${flagKey}`,
+            after: options.after,
+            before: options.before,
+            baseUrl: options.baseUrl,
+            retry: options.retry,
+        })
+    ) {
+        entries.push(entry as unknown as AuditLogEntry);
+    }
+    entries.sort((a, b) => a.date - b.date);
+
+    const events: TimelineEvent[] = [];
+    let flagName: string | null = null;
+    for (const [index, entry] of entries.entries()) {
+        options.onEntry?.(entry, index, entries.length);
+        const detail = await getAuditLogEntry(apiKey, entry._id, clientOptions);
+        flagName = detail.currentVersion?.name ?? detail.name ?? flagName;
+
+        events.push({
+            id: detail._id,
+            date: detail.date,
+            actor: describeActor(detail),
+            actions: [...new Set((detail.accesses ?? []).map((access) => access.action))],
+            environments: getEnvironments(detail),
+            description: detail.description ?? detail.titleVerb ?? null,
+            comment: detail.comment ?? null,
+            changes: diffEntry(detail),
+        });
+    }
+
+    return {
+        projectKey,
+        flagKey,
+        flagName,
+        after: options.after ?? null,
+        before: options.before ?? null,
+        events,
+    };
+}
+
+function formatDate(date: number): string {
+    return new Date(date).toISOString().replace("T", " ").replace(/\.\d+Z$/, " UTC");
+}
+
+export function formatMarkdown(history: FlagHistory): string {
+    const lines: string[] = [];
+    const title = history.flagName ? `${history.flagName} (\`${history.flagKey}\`)` : `\`${history.flagKey}\``;
+    lines.push(`# History of ${title}`);
+    lines.push("");
+    lines.push(`Project \`${history.projectKey}\`, ${history.events.length} changes`);
+
+    if (history.events.length === 0) {
+        lines.push("");
+        lines.push("No changes found.");
+        return lines.join("\n");
+    }
+
+    for (const event of history.events) {
+        lines.push("");
+        const environments = event.environments.filter((environment) => environment !== "*");
+        const where = environments.length > 0 ? ` in ${environments.join(", ")}` : "";
+        lines.push(`## ${formatDate(event.date)}: ${event.actor}${where}`);
+        lines.push("");
+        if (event.description) {
+            lines.push(event.description);
+            lines.push("");
+        }
+        if (event.comment) {
+            lines.push(`> ${event.comment}`);
+            lines.push("");
+        }
+        if (event.changes.length > 0) {
+            for (const change of event.changes) {
+                const environment = change.environment ? `**${change.environment}**: ` : "";
+                lines.push(`- ${environment}${change.description}`);
+            }
+        } else {
+            lines.push(`- ${event.actions.join(", ") || "No targeting changes"}`);
+        }
+    }
+
+    return lines.join("\n");
+}
+
+export function formatHistory(history: FlagHistory, format: HistoryFormat): string {
+    switch (format) {
+        case "json":
+            return JSON.stringify(history, null, 2);
+        case "html":
+            return generateHTML(history);
+        default:
+            return formatMarkdown(history);
+    }
+}
+
+// Main execution
+if (import.meta.main) {
+    const API_KEY = getApiKeyFromEnv();
+    if (!API_KEY) {
+        console.error(
+            "Error: LAUNCHDARKLY_API_KEY or LD_API_KEY environment variable is required",
+        );
+        Deno.exit(1);
+    }
+
+    const usage = "Usage: flag-history.ts <project-key> <flag-key> [--after <date>] [--before <date>] " +
+        "[--format markdown|json|html] [--output <file>] [--base-url <url>]";
+
+    let baseUrl = getBaseUrlFromEnv();
+    const positional: string[] = [];
+    let after: number | undefined;
+    let before: number | undefined;
+    let format: HistoryFormat = "markdown";
+    let outputFile: string | undefined;
+
+    for (let i = 0; i < Deno.args.length; i++) {
+        const arg = Deno.args[i];
+        if (!arg.startsWith("--") && arg !== "-o") {
+            positional.push(arg);
+            continue;
+        }
+
+        const value = Deno.args[i + 1];
+        try {
+            if (!value || value.startsWith("--")) {
+                throw new Error(`Missing value for ${arg}`);
+            }
+            switch (arg) {
+                case "--after":
+                    after = toMilliseconds(value);
+                    break;
+                case "--before":
+                    before = toMilliseconds(value);
+                    break;
+                case "--format":
+                    if (value !== "markdown" && value !== "json" && value !== "html") {
+                        throw new Error("--format must be one of: markdown, json, html");
+                    }
+                    format = value;
+                    break;
+                case "--output":
+                case "-o":
+                    outputFile = value === "-" ? undefined : value;
+                    break;
+                case "--base-url":
+                    baseUrl = normalizeBaseUrl(value);
+                    break;
+                default:
+                    throw new Error(`Unknown argument ${arg}`);
+            }
+        } catch (error) {
+            console.error(`Error: ${(error as Error).message}`);
+            Deno.exit(1);
+        }
+        i++; // Skip the value in the next iteration
+    }
+
+    if (positional.length !== 2) {
+        console.error("Error: Project key and flag key arguments are required");
+        console.error(usage);
+        Deno.exit(1);
+    }
+
+    const [projectKey, flagKey] = positional;
+    try {
+        console.error(`Fetching history of ${projectKey}/${flagKey}...`);
+        const history = await getFlagHistory(API_KEY, projectKey, flagKey, {
+            after,
+            before,
+            baseUrl,
+            onEntry: (_entry, index, total) => {
+                if (index === 0 || (index + 1) % 20 === 0 || index + 1 === total) {
+                    console.error(`Fetching change detail ${index + 1}/${total}...`);
+                }
+            },
+        });
+
+        const output = formatHistory(history, format);
+        if (outputFile) {
+            await Deno.writeTextFile(outputFile, output + "\n");
+            console.error(`Wrote ${history.events.length} changes to ${outputFile}`);
+        } else {
+            console.log(output);
+        }
+    } catch (error) {
+        console.error(`Error: ${(error as Error).message}`);
+        Deno.exit(1);
+    }
+}
@@ -0,0 +1,317 @@
+import type { FlagHistory, TimelineEvent } from "./flag-history.ts";
+
+function escapeHtml(value: string): string {
+    return value
+        .replace(/&/g, "&amp;")
+        .replace(/</g, "&lt;")
+        .replace(/>/g, "&gt;")
+        .replace(/"/g, "&quot;")
+        .replace(/'/g, "&#39;");
+}
+
+function renderEvent(event: TimelineEvent): string {
+    const date = new Date(event.date);
+    const environments = event.environments.filter((environment) => environment !== "*");
+    const badges = environments
+        .map((environment) => `<span class="badge">${escapeHtml(environment)}</span>`)
+        .join("");
+
+    const changes = event.changes.length > 0
+        ? event.changes.map((change) => {
+            const environment = change.environment
+                ? `<span class="change-env">${escapeHtml(change.environment)}</span>`
+                : "";
+            return `<li class="change change-${change.field}">${environment}${escapeHtml(change.description)}</li>`;
+        }).join("\n")
+        : `<li class="change change-none">${escapeHtml(event.actions.join(", ") || "No targeting changes")}</li>`;
+
+    return `
+        <div class="event" data-environments="${escapeHtml(environments.join(" "))}">
+            <div class="event-dot"></div>
+            <div class="event-card">
+                <div class="event-header">
+                    <time datetime="${date.toISOString()}" title="${date.toISOString()}">${date.toLocaleString("en-US", { dateStyle: "medium", timeStyle: "short", timeZone: "UTC" })} UTC</time>
+                    ${badges}
+                </div>
+                <div class="event-actor">${escapeHtml(event.actor)}</div>
+                ${event.description ? `<div class="event-description">${escapeHtml(event.description)}</div>` : ""}
+                ${event.comment ? `<blockquote class="event-comment">${escapeHtml(event.comment)}</blockquote>` : ""}
+                <ul class="changes">
+${changes}
+                </ul>
+            </div>
+        </div>`;
+}
+
+/**
+ * Render a flag's history as a standalone HTML page, newest change first
+ */
+export function generateHTML(history: FlagHistory): string {
+    const title = history.flagName ? `${history.flagName} (${history.flagKey})` : history.flagKey;
+    const environments = [...new Set(history.events.flatMap((event) => event.environments))]
+        .filter((environment) => environment !== "*")
+        .sort();
+    const actors = new Set(history.events.map((event) => event.actor));
+    const first = history.events[0];
+    const last = history.events[history.events.length - 1];
+
+    const filterButtons = environments.length > 1
+        ? `<div class="filters">
+            <button class="filter active" data-environment="">All environments</button>
+            ${environments.map((environment) => `<button class="filter" data-environment="${escapeHtml(environment)}">${escapeHtml(environment)}</button>`).join("\n            ")}
+        </div>`
+        : "";
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <title>History of ${escapeHtml(title)}</title>
+    <style>
+        * {
+            margin: 0;
+            padding: 0;
+            box-sizing: border-box;
+        }
+
+        body {
+            font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, Oxygen, Ubuntu, Cantarell, sans-serif;
+            background: #f5f5fa;
+            color: #222;
+        }
+
+        header {
+            background: linear-gradient(135deg, #667eea 0%, #764ba2 100%);
+            color: white;
+            padding: 48px 20px;
+            text-align: center;
+        }
+
+        header h1 {
+            font-size: 2.5rem;
+            font-weight: 900;
+            margin-bottom: 0.5rem;
+        }
+
+        header .flag-key {
+            font-family: 'SF Mono', Menlo, Consolas, monospace;
+            opacity: 0.85;
+        }
+
+        .stats {
+            display: flex;
+            justify-content: center;
+            gap: 40px;
+            margin-top: 24px;
+        }
+
+        .stat-value {
+            font-size: 2rem;
+            font-weight: 800;
+        }
+
+        .stat-label {
+            font-size: 0.85rem;
+            opacity: 0.8;
+            text-transform: uppercase;
+            letter-spacing: 0.05em;
+        }
+
+        .container {
+            max-width: 860px;
+            margin: 0 auto;
+            padding: 32px 20px;
+        }
+
+        .filters {
+            display: flex;
+            flex-wrap: wrap;
+            gap: 8px;
+            margin-bottom: 24px;
+        }
+
+        .filter {
+            border: 1px solid #764ba2;
+            background: white;
+            color: #764ba2;
+            border-radius: 999px;
+            padding: 6px 14px;
+            font-size: 0.9rem;
+            cursor: pointer;
+        }
+
+        .filter.active {
+            background: #764ba2;
+            color: white;
+        }
+
+        .timeline {
+            position: relative;
+            padding-left: 28px;
+        }
+
+        .timeline::before {
+            content: '';
+            position: absolute;
+            left: 7px;
+            top: 0;
+            bottom: 0;
+            width: 2px;
+            background: #d0c8e8;
+        }
+
+        .event {
+            position: relative;
+            margin-bottom: 20px;
+        }
+
+        .event-dot {
+            position: absolute;
+            left: -27px;
+            top: 18px;
+            width: 14px;
+            height: 14px;
+            border-radius: 50%;
+            background: #667eea;
+            border: 3px solid #f5f5fa;
+        }
+
+        .event-card {
+            background: white;
+            border-radius: 12px;
+            padding: 16px 20px;
+            box-shadow: 0 2px 8px rgba(0, 0, 0, 0.06);
+        }
+
+        .event-header {
+            display: flex;
+            flex-wrap: wrap;
+            align-items: center;
+            gap: 8px;
+            font-size: 0.9rem;
+            color: #666;
+        }
+
+        .badge {
+            background: #eee8f8;
+            color: #764ba2;
+            border-radius: 6px;
+            padding: 2px 8px;
+            font-size: 0.8rem;
+            font-weight: 600;
+        }
+
+        .event-actor {
+            font-weight: 700;
+            margin-top: 6px;
+        }
+
+        .event-description {
+            color: #444;
+            margin-top: 4px;
+        }
+
+        .event-comment {
+            border-left: 3px solid #d0c8e8;
+            padding-left: 12px;
+            margin-top: 8px;
+            color: #555;
+            font-style: italic;
+        }
+
+        .changes {
+            list-style: none;
+            margin-top: 12px;
+        }
+
+        .change {
+            font-family: 'SF Mono', Menlo, Consolas, monospace;
+            font-size: 0.85rem;
+            padding: 6px 10px;
+            border-radius: 6px;
+            background: #f8f8fc;
+            margin-bottom: 4px;
+            overflow-wrap: anywhere;
+        }
+
+        .change-on {
+            background: #eef9f0;
+        }
+
+        .change-flag {
+            background: #fff6e5;
+        }
+
+        .change-none {
+            color: #888;
+        }
+
+        .change-env {
+            font-weight: 700;
+            margin-right: 8px;
+            color: #764ba2;
+        }
+
+        .empty {
+            text-align: center;
+            color: #888;
+            padding: 48px 0;
+        }
+
+        @media (max-width: 600px) {
+            header h1 {
+                font-size: 1.8rem;
+            }
+
+            .stats {
+                gap: 20px;
+            }
+        }
+    </style>
+</head>
+<body>
+    <header>
+        <h1>${escapeHtml(history.flagName ?? history.flagKey)}</h1>
+        <div class="flag-key">${escapeHtml(history.projectKey)} / ${escapeHtml(history.flagKey)}</div>
+        <div class="stats">
+            <div>
+                <div class="stat-value">${history.events.length.toLocaleString()}</div>
+                <div class="stat-label">Changes</div>
+            </div>
+            <div>
+                <div class="stat-value">${actors.size.toLocaleString()}</div>
+                <div class="stat-label">People</div>
+            </div>
+            <div>
+                <div class="stat-value">${environments.length.toLocaleString()}</div>
+                <div class="stat-label">Environments</div>
+            </div>
+        </div>
+        ${first && last ? `<p style="margin-top: 20px; opacity: 0.85;">${new Date(first.date).toISOString().slice(0, 10)} – ${new Date(last.date).toISOString().slice(0, 10)}</p>` : ""}
+    </header>
+
+    <div class="container">
+        ${filterButtons}
+        ${history.events.length === 0 ? `<div class="empty">No changes found</div>` : ""}
+        <div class="timeline">
+${[...history.events].reverse().map(renderEvent).join("\n")}
+        </div>
+    </div>
+
+    <script>
+        // Show only the changes to one environment
+        document.querySelectorAll('.filter').forEach(button => {
+            button.addEventListener('click', () => {
+                const environment = button.dataset.environment;
+                document.querySelectorAll('.filter').forEach(other => other.classList.toggle('active', other === button));
+                document.querySelectorAll('.event').forEach(event => {
+                    const environments = event.dataset.environments.split(' ');
+                    event.style.display = !environment || environments.includes(environment) || environments[0] === '' ? '' : 'none';
+                });
+            });
+        });
+    </script>
+</body>
+</html>`;
+}
@@ -0,0 +1,406 @@
+/**
+ * Typed model of LaunchDarkly flag configurations and flag statuses, shared
+ * by the reports in this repository.
+ *
+ * `parseFlag` and `parseFlagStatus` check the parts of an API response the
+ * reports rely on, so a change in the API's shape fails with an error naming
+ * the flag and the offending field instead of producing a silently wrong report.
+ */
+
+export interface Variation {
+    _id?: string;
+    value: unknown;
+    name?: string;
+    description?: string;
+}
+
+export interface Clause {
+    _id?: string;
+    attribute: string;
+    op: string;                 // e.g. "in", "startsWith", "segmentMatch", "semVerGreaterThan"
+    values: unknown[];
+    negate?: boolean;
+    contextKind?: string;       // Defaults to "user" when absent
+}
+
+export interface WeightedVariation {
+    variation: number;
+    weight: number;             // Out of 100000
+    _untracked?: boolean;
+}
+
+export interface Rollout {
+    variations: WeightedVariation[];
+    bucketBy?: string;
+    contextKind?: string;
+    seed?: number;
+    experimentAllocation?: {
+        defaultVariation: number;
+        canReshuffle: boolean;
+    };
+}
+
+/**
+ * Where a rule or the fallthrough sends contexts: either one variation or a percentage rollout.
+ *
+ * Some responses flatten the rollout so `variations` sits directly on the fallthrough.
+ */
+export interface VariationOrRollout {
+    variation?: number;
+    rollout?: Rollout;
+    variations?: WeightedVariation[];
+}
+
+export interface Rule extends VariationOrRollout {
+    _id?: string;
+    clauses: Clause[];
+    trackEvents?: boolean;
+    description?: string;
+    ref?: string;
+}
+
+export interface Target {
+    variation: number;
+    values?: string[];
+    contextKind?: string;       // Only set on contextTargets
+}
+
+export interface Prerequisite {
+    key: string;
+    variation: number;
+}
+
+export interface VariationSummary {
+    isFallthrough?: boolean;
+    isOff?: boolean;
+    rules?: number;
+    targets?: number;
+    contextTargets?: number;
+    nullRules?: number;
+}
+
+export interface EnvironmentSummary {
+    prerequisites?: number;
+    variations?: Record<string, VariationSummary>;
+}
+
+export interface FlagEnvironment {
+    on: boolean;
+    archived?: boolean;
+    salt?: string;
+    sel?: string;
+    lastModified?: number;
+    version?: number;
+    fallthrough?: number | null | VariationOrRollout;
+    offVariation?: number | null;
+    prerequisites?: Prerequisite[];
+    rules?: Rule[];
+    targets?: Target[];
+    contextTargets?: Target[];
+    trackEvents?: boolean;
+    trackEventsFallthrough?: boolean;
+    _site?: { href: string; type?: string };
+    _summary?: EnvironmentSummary;
+}
+
+export interface Maintainer {
+    _id?: string;
+    _links?: Record<string, unknown>;
+    email?: string;
+    firstName?: string;
+    lastName?: string;
+    role?: string;
+}
+
+export interface CodeReferenceRepository {
+    _links?: { self?: { href?: string; type?: string } };
+    defaultBranch?: string;
+    enabled?: boolean;
+    fileCount?: number;
+    hunkCount?: number;
+    latestCommitTime?: number;
+    name?: string;
+    sourceLink?: string;
+    type?: string;
+    version?: number;
+}
+
+export interface Flag {
+    key: string;
+    name?: string;
+    kind?: string;              // "boolean" or "multivariate"
+    description?: string;
+    tags?: string[];
+    temporary?: boolean;
+    archived?: boolean;
+    deprecated?: boolean;
+    creationDate?: number;
+    salt?: string;
+    clientSideAvailability?: {
+        usingMobileKey?: boolean;
+        usingEnvironmentId?: boolean;
+    };
+    defaults?: {
+        onVariation?: number;
+        offVariation?: number;
+    };
+    _maintainer?: Maintainer;
+    _maintainerTeam?: {
+        key?: string;
+        name?: string;
+    };
+    stale?: boolean | {
+        cleanupId?: string | null;
+        readyForCodeRemoval?: boolean;
+        readyToArchive?: boolean;
+    };
+    customProperties?: Record<string, unknown>;
+    codeReferences?: {
+        _links?: { self?: { href?: string; type?: string } };
+        items?: CodeReferenceRepository[];
+    };
+    prerequisites?: Prerequisite[];
+    variations: Variation[];
+    environments: Record<string, FlagEnvironment>;
+    _links?: Record<string, { href: string; type?: string }>;
+    _site?: { href: string; type?: string };
+}
+
+export interface FlagStatus {
+    name?: string;              // e.g. "active", "inactive", "launched", "new"
+    lastRequested?: string | number | null;     // ISO 8601 date, or Unix milliseconds in older responses
+    default?: unknown;
+    _links: {
+        parent: {
+            href: string;
+        };
+    };
+}
+
+export interface SegmentRule {
+    _id?: string;
+    clauses: Clause[];
+    weight?: number;            // Percentage of matching contexts included, out of 100000
+    bucketBy?: string;
+    rolloutContextKind?: string;
+}
+
+export interface SegmentTarget {
+    contextKind: string;
+    values: string[];
+}
+
+/**
+ * A segment in one environment, as returned by the segments API
+ */
+export interface Segment {
+    key: string;
+    name?: string;
+    salt?: string;
+    included?: string[];        // User keys
+    excluded?: string[];
+    includedContexts?: SegmentTarget[];
+    excludedContexts?: SegmentTarget[];
+    rules?: SegmentRule[];
+    unbounded?: boolean;        // Big segments can't be evaluated from the segment alone
+    unboundedContextKind?: string;
+}
+
+/**
+ * Error thrown when flag or flag status data doesn't match the expected shape
+ */
+export class FlagValidationError extends Error {
+    constructor(
+        message: string,
+        public readonly path: string,
+    ) {
+        super(message);
+        this.name = "FlagValidationError";
+    }
+}
+
+type Validator = (value: unknown, path: string) => void;
+
+function describe(value: unknown): string {
+    if (value === null) return "null";
+    if (Array.isArray(value)) return "array";
+    return typeof value;
+}
+
+function fail(path: string, expected: string, value: unknown): never {
+    throw new FlagValidationError(`${path || "top level"}: expected ${expected}, got ${describe(value)}`, path);
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+    return value !== null && typeof value === "object" && !Array.isArray(value);
+}
+
+const string: Validator = (value, path) => {
+    if (typeof value !== "string") fail(path, "string", value);
+};
+
+const number: Validator = (value, path) => {
+    if (typeof value !== "number") fail(path, "number", value);
+};
+
+const boolean: Validator = (value, path) => {
+    if (typeof value !== "boolean") fail(path, "boolean", value);
+};
+
+function optional(validator: Validator): Validator {
+    return (value, path) => {
+        if (value !== undefined) validator(value, path);
+    };
+}
+
+function nullable(validator: Validator): Validator {
+    return (value, path) => {
+        if (value !== null && value !== undefined) validator(value, path);
+    };
+}
+
+function arrayOf(validator: Validator): Validator {
+    return (value, path) => {
+        if (!Array.isArray(value)) fail(path, "array", value);
+        value.forEach((item, index) => validator(item, `${path}[${index}]`));
+    };
+}
+
+function recordOf(validator: Validator): Validator {
+    return (value, path) => {
+        if (!isObject(value)) fail(path, "object", value);
+        for (const [key, item] of Object.entries(value)) {
+            validator(item, `${path}.${key}`);
+        }
+    };
+}
+
+function object(fields: Record<string, Validator>): Validator {
+    return (value, path) => {
+        if (!isObject(value)) fail(path, "object", value);
+        for (const [field, validator] of Object.entries(fields)) {
+            validator(value[field], path ? `${path}.${field}` : field);
+        }
+    };
+}
+
+const variation = object({
+    value: (value, path) => {
+        if (value === undefined) fail(path, "a value", value);
+    },
+    name: optional(string),
+    description: optional(string),
+});
+
+const weightedVariation = object({
+    variation: number,
+    weight: number,
+});
+
+const rollout = object({
+    variations: arrayOf(weightedVariation),
+    bucketBy: optional(string),
+    contextKind: optional(string),
+    seed: nullable(number),
+});
+
+const variationOrRollout = object({
+    variation: optional(number),
+    rollout: optional(rollout),
+    variations: optional(arrayOf(weightedVariation)),
+});
+
+const clause = object({
+    attribute: string,
+    op: string,
+    values: arrayOf(() => {}),
+    negate: optional(boolean),
+    contextKind: optional(string),
+});
+
+const rule = (value: unknown, path: string) => {
+    variationOrRollout(value, path);
+    object({
+        clauses: arrayOf(clause),
+        description: optional(string),
+    })(value, path);
+};
+
+const target = object({
+    variation: number,
+    values: optional(arrayOf(string)),
+    contextKind: optional(string),
+});
+
+const prerequisite = object({
+    key: string,
+    variation: number,
+});
+
+const environment = object({
+    on: boolean,
+    lastModified: optional(number),
+    fallthrough: nullable((value, path) => {
+        if (typeof value !== "number") variationOrRollout(value, path);
+    }),
+    offVariation: nullable(number),
+    prerequisites: optional(arrayOf(prerequisite)),
+    rules: optional(arrayOf(rule)),
+    targets: optional(arrayOf(target)),
+    contextTargets: optional(arrayOf(target)),
+    _summary: optional(object({
+        prerequisites: optional(number),
+        variations: optional(recordOf(object({}))),
+    })),
+});
+
+const flag = object({
+    key: string,
+    name: optional(string),
+    tags: optional(arrayOf(string)),
+    temporary: optional(boolean),
+    variations: arrayOf(variation),
+    environments: recordOf(environment),
+    prerequisites: optional(arrayOf(prerequisite)),
+});
+
+const flagStatus = object({
+    name: optional(string),
+    _links: object({
+        parent: object({ href: string }),
+    }),
+});
+
+/**
+ * Check that an API response looks like a flag and return it typed
+ */
+export function parseFlag(value: unknown): Flag {
+    const key = isObject(value) && typeof value.key === "string" ? value.key : "(unknown key)";
+    try {
+        flag(value, "");
+    } catch (error) {
+        if (error instanceof FlagValidationError) {
+            throw new FlagValidationError(
+                `Unexpected data for flag "${key}" at ${error.message}`,
+                error.path,
+            );
+        }
+        throw error;
+    }
+    return value as Flag;
+}
+
+/**
+ * Check that an API response looks like a flag status and return it typed
+ */
+export function parseFlagStatus(value: unknown): FlagStatus {
+    try {
+        flagStatus(value, "");
+    } catch (error) {
+        if (error instanceof FlagValidationError) {
+            throw new FlagValidationError(`Unexpected flag status data at ${error.message}`, error.path);
+        }
+        throw error;
+    }
+    return value as FlagStatus;
+}
@@ -1,6 +1,12 @@
 #!/usr/bin/env -S deno run --allow-net --allow-env
 
 import { parseArgs } from "jsr:@std/cli/parse-args";
+import { buildUrl, DEFAULT_BASE_URL, getJson, normalizeBaseUrl, withRetryBudget } from "../ld-client/ld-client.ts";
+import type { RetryOptions } from "../ld-client/ld-client.ts";
+import { mergeProducers } from "../ld-client/merge.ts";
+import type { Push } from "../ld-client/merge.ts";
+import { parseFields, parseFormat, writeRecords } from "../output-format/output-format.ts";
+import type { OutputOptions } from "../output-format/output-format.ts";
 
 interface APIResponse {
     items: Record<string, unknown>[];
@@ -19,6 +25,35 @@ export interface FilterOptions {
     status?: Array<"pending" | "scheduled" | "failed" | "completed">;
 }
 
+/**
+ * Build the `filter` query parameter value from filter options
+ */
+function buildFilterParameter(f?: FilterOptions): string | undefined {
+    if (!f) return undefined;
+
+    const filters: string[] = [];
+    if (f.notifyMemberIds && f.notifyMemberIds.length > 0) {
+        filters.push(`notifyMemberIds anyOf [${f.notifyMemberIds.join(",")}]`);
+    }
+    if (f.requestorId) {
+        filters.push(`requestorId equals ${f.requestorId}`);
+    }
+    if (f.resourceId) {
+        filters.push(`resourceId equals ${f.resourceId}`);
+    }
+    if (f.resourceKind) {
+        filters.push(`resourceKind equals ${f.resourceKind}`);
+    }
+    if (f.reviewStatus && f.reviewStatus.length > 0) {
+        filters.push(`reviewStatus anyOf [${f.reviewStatus.join(",")}]`);
+    }
+    if (f.status && f.status.length > 0) {
+        filters.push(`status anyOf [${f.status.join(",")}]`);
+    }
+
+    return filters.length > 0 ? filters.join(",") : undefined;
+}
+
 export async function* getAllApprovalRequests(
     apiKey: string,
     options?: {
@@ -27,10 +62,13 @@ export async function* getAllApprovalRequests(
         baseUrl?: string;
         max?: number;
         offset?: number;
+        retry?: RetryOptions;
     },
 ): AsyncGenerator<Record<string, unknown>> {
-    const baseUrl = options?.baseUrl || "https://app.launchdarkly.com";
-    let nextUrl: URL | null = new URL("/api/v2/approval-requests", baseUrl);
+    const baseUrl = options?.baseUrl || DEFAULT_BASE_URL;
+    // Every page draws from the same retry budget
+    const retry = withRetryBudget(options?.retry);
+    let nextUrl: URL | null = buildUrl("/api/v2/approval-requests", baseUrl);
     let yieldedCount = 0;
 
     // Determine optimal limit based on max
@@ -42,32 +80,9 @@ export async function* getAllApprovalRequests(
     nextUrl.searchParams.set("offset", initialOffset.toString());
 
     // Build filter parameter
-    if (options?.filter) {
-        const filters: string[] = [];
-        const f = options.filter;
-
-        if (f.notifyMemberIds && f.notifyMemberIds.length > 0) {
-            filters.push(`notifyMemberIds anyOf [${f.notifyMemberIds.join(",")}]`);
-        }
-        if (f.requestorId) {
-            filters.push(`requestorId equals ${f.requestorId}`);
-        }
-        if (f.resourceId) {
-            filters.push(`resourceId equals ${f.resourceId}`);
-        }
-        if (f.resourceKind) {
-            filters.push(`resourceKind equals ${f.resourceKind}`);
-        }
-        if (f.reviewStatus && f.reviewStatus.length > 0) {
-            filters.push(`reviewStatus anyOf [${f.reviewStatus.join(",")}]`);
-        }
-        if (f.status && f.status.length > 0) {
-            filters.push(`status anyOf [${f.status.join(",")}]`);
-        }
-
-        if (filters.length > 0) {
-            nextUrl.searchParams.set("filter", filters.join(","));
-        }
+    const filter = buildFilterParameter(options?.filter);
+    if (filter) {
+        nextUrl.searchParams.set("filter", filter);
     }
 
     // Build expand parameter
@@ -76,88 +91,47 @@ export async function* getAllApprovalRequests(
     }
 
     while (nextUrl) {
-        const url = new URL(nextUrl, baseUrl);
-        try {
-            const response = await fetch(url, {
-                headers: {
-                    "Authorization": apiKey,
-                    "Content-Type": "application/json",
-                },
-            });
+        const url: URL = nextUrl;
+        const data = await getJson<APIResponse>(apiKey, url, { baseUrl, retry });
 
-            if (response.status === 429) {
-                // Handle rate limiting
-                const resetTime = response.headers.get("X-RateLimit-Reset");
-                if (resetTime) {
-                    const waitMs = Math.min(
-                        (parseInt(resetTime) * 1000) - Date.now(),
-                        1000,
-                    );
-
-                    await new Promise((resolve) => setTimeout(resolve, waitMs));
-                    continue; // Retry the same URL
-                }
-            }
+        // Yield each approval request
+        for (const entry of data.items) {
+            yield entry;
+            yieldedCount++;
 
-            if (!response.ok) {
-                if (response.status >= 500 || response.status === 429) {
-                    // Retry after a short delay for server errors and rate limits
-                    await new Promise((resolve) => setTimeout(resolve, 1000));
-                    continue;
-                }
-                throw new Error(
-                    `API request failed: ${response.status} ${response.statusText}`,
-                );
-            }
-
-            const data: APIResponse = await response.json();
-
-            // Yield each approval request
-            for (const entry of data.items) {
-                yield entry;
-                yieldedCount++;
-
-                // Stop if we've reached max
-                if (options?.max && yieldedCount >= options.max) {
-                    return;
-                }
+            // Stop if we've reached max
+            if (options?.max && yieldedCount >= options.max) {
+                return;
             }
+        }
 
-            // Build next URL using offset-based pagination
-            if (data.items.length > 0 && data.totalCount) {
-                const currentOffset = parseInt(url.searchParams.get("offset") || "0");
-                const currentLimit = parseInt(url.searchParams.get("limit") || "20");
-                const newOffset = currentOffset + data.items.length;
-
-                // Check if we need to fetch more
-                const hasMore = newOffset < data.totalCount;
-                const needsMore = !options?.max || yieldedCount < options.max;
-
-                if (hasMore && needsMore) {
-                    nextUrl = new URL(url);
-                    nextUrl.searchParams.set("offset", newOffset.toString());
-
-                    // Adjust limit for the next request if max is set
-                    if (options?.max) {
-                        const remaining = options.max - yieldedCount;
-                        const nextLimit = Math.min(remaining, 200);
-                        nextUrl.searchParams.set("limit", nextLimit.toString());
-                    } else {
-                        nextUrl.searchParams.set("limit", currentLimit.toString());
-                    }
+        // Build next URL using offset-based pagination
+        if (data.items.length > 0 && data.totalCount) {
+            const currentOffset = parseInt(url.searchParams.get("offset") || "0");
+            const currentLimit = parseInt(url.searchParams.get("limit") || "20");
+            const newOffset = currentOffset + data.items.length;
+
+            // Check if we need to fetch more
+            const hasMore = newOffset < data.totalCount;
+            const needsMore = !options?.max || yieldedCount < options.max;
+
+            if (hasMore && needsMore) {
+                nextUrl = new URL(url);
+                nextUrl.searchParams.set("offset", newOffset.toString());
+
+                // Adjust limit for the next request if max is set
+                if (options?.max) {
+                    const remaining = options.max - yieldedCount;
+                    const nextLimit = Math.min(remaining, 200);
+                    nextUrl.searchParams.set("limit", nextLimit.toString());
                 } else {
-                    nextUrl = null;
+                    nextUrl.searchParams.set("limit", currentLimit.toString());
                 }
             } else {
                 nextUrl = null;
             }
-        } catch (error) {
-            if (error instanceof TypeError && error.message.includes("fetch")) {
-                // Network error, retry after a delay
-                await new Promise((resolve) => setTimeout(resolve, 1000));
-                continue;
-            }
-            throw error;
+        } else {
+            nextUrl = null;
         }
     }
 }
@@ -181,6 +155,10 @@ export interface ProgressCallback {
 /**
  * Fetch approval requests in parallel by splitting into offset-based chunks
  * Uses Set-based deduplication to avoid duplicate entries
+ *
+ * Fetched entries wait in a buffer of `bufferSize` entries; once it is full the
+ * chunks pause until the consumer catches up. If a chunk fails, the error is
+ * thrown immediately and the other chunk fetches are cancelled.
  */
 export async function* getAllApprovalRequestsParallel(
     apiKey: string,
@@ -192,57 +170,25 @@ export async function* getAllApprovalRequestsParallel(
         baseUrl?: string;
         max?: number;
         offset?: number;
+        retry?: RetryOptions;
+        bufferSize?: number;    // Entries buffered before fetching pauses (default: 1000)
     },
 ): AsyncGenerator<Record<string, unknown>> {
-    const baseUrl = options.baseUrl || "https://app.launchdarkly.com";
+    const baseUrl = options.baseUrl || DEFAULT_BASE_URL;
+    // All chunks draw from the same retry budget
+    const retry = withRetryBudget(options.retry);
 
     // First, fetch the total count
-    const countUrl = new URL("/api/v2/approval-requests", baseUrl);
+    const countUrl = buildUrl("/api/v2/approval-requests", baseUrl);
     countUrl.searchParams.set("limit", "1");
 
     // Build filter parameter
-    if (options?.filter) {
-        const filters: string[] = [];
-        const f = options.filter;
-
-        if (f.notifyMemberIds && f.notifyMemberIds.length > 0) {
-            filters.push(`notifyMemberIds anyOf [${f.notifyMemberIds.join(",")}]`);
-        }
-        if (f.requestorId) {
-            filters.push(`requestorId equals ${f.requestorId}`);
-        }
-        if (f.resourceId) {
-            filters.push(`resourceId equals ${f.resourceId}`);
-        }
-        if (f.resourceKind) {
-            filters.push(`resourceKind equals ${f.resourceKind}`);
-        }
-        if (f.reviewStatus && f.reviewStatus.length > 0) {
-            filters.push(`reviewStatus anyOf [${f.reviewStatus.join(",")}]`);
-        }
-        if (f.status && f.status.length > 0) {
-            filters.push(`status anyOf [${f.status.join(",")}]`);
-        }
-
-        if (filters.length > 0) {
-            countUrl.searchParams.set("filter", filters.join(","));
-        }
+    const filter = buildFilterParameter(options.filter);
+    if (filter) {
+        countUrl.searchParams.set("filter", filter);
     }
 
-    const countResponse = await fetch(countUrl, {
-        headers: {
-            "Authorization": apiKey,
-            "Content-Type": "application/json",
-        },
-    });
-
-    if (!countResponse.ok) {
-        throw new Error(
-            `Failed to fetch total count: ${countResponse.status} ${countResponse.statusText}`,
-        );
-    }
-
-    const countData: APIResponse = await countResponse.json();
+    const countData = await getJson<APIResponse>(apiKey, countUrl, { baseUrl, retry });
     let totalCount = countData.totalCount || 0;
 
     // Apply starting offset and max limit
@@ -300,157 +246,99 @@ export async function* getAllApprovalRequestsParallel(
     let totalEntriesFetched = 0;
     let totalDuplicates = 0;
 
-    // Queue for entries as they're fetched
-    const queue: Array<Record<string, unknown>> = [];
-    let activeChunks = chunks.length;
-    let hasError: Error | null = null;
-
-    // Start all chunk fetchers in parallel
-    chunks.forEach((chunk, index) => {
-        (async () => {
+    // One producer per chunk, all fetching in parallel
+    const producers = chunks.map((chunk, index) =>
+        async (push: Push<Record<string, unknown>>, signal: AbortSignal) => {
             let chunkEntries = 0;
             let lastReportedCount = 0;
             const reportInterval = 50; // Report every 50 entries
 
-            try {
-                options.onProgress?.({
-                    type: "chunk_start",
-                    totalChunks: chunks.length,
-                    completedChunks,
-                    percentage: 0,
-                    chunkIndex: index,
-                    totalEntriesFetched,
-                });
-
-                // Fetch multiple pages within this worker's range using limit=200
-                let currentOffset = chunk.startOffset;
-                const maxLimit = 200;
-                const targetItemCount = chunk.endOffset - chunk.startOffset;
-
-                while (chunkEntries < targetItemCount) {
-                    const remaining = targetItemCount - chunkEntries;
-                    const limit = Math.min(remaining, maxLimit);
-
-                    const chunkUrl = new URL("/api/v2/approval-requests", baseUrl);
-                    chunkUrl.searchParams.set("offset", currentOffset.toString());
-                    chunkUrl.searchParams.set("limit", limit.toString());
-
-                    // Apply filters and expand
-                    if (options?.filter) {
-                        const filters: string[] = [];
-                        const f = options.filter;
-
-                        if (f.notifyMemberIds && f.notifyMemberIds.length > 0) {
-                            filters.push(`notifyMemberIds anyOf [${f.notifyMemberIds.join(",")}]`);
-                        }
-                        if (f.requestorId) {
-                            filters.push(`requestorId equals ${f.requestorId}`);
-                        }
-                        if (f.resourceId) {
-                            filters.push(`resourceId equals ${f.resourceId}`);
-                        }
-                        if (f.resourceKind) {
-                            filters.push(`resourceKind equals ${f.resourceKind}`);
-                        }
-                        if (f.reviewStatus && f.reviewStatus.length > 0) {
-                            filters.push(`reviewStatus anyOf [${f.reviewStatus.join(",")}]`);
-                        }
-                        if (f.status && f.status.length > 0) {
-                            filters.push(`status anyOf [${f.status.join(",")}]`);
-                        }
+            options.onProgress?.({
+                type: "chunk_start",
+                totalChunks: chunks.length,
+                completedChunks,
+                percentage: 0,
+                chunkIndex: index,
+                totalEntriesFetched,
+            });
 
-                        if (filters.length > 0) {
-                            chunkUrl.searchParams.set("filter", filters.join(","));
-                        }
-                    }
+            // Fetch multiple pages within this worker's range using limit=200
+            let currentOffset = chunk.startOffset;
+            const maxLimit = 200;
+            const targetItemCount = chunk.endOffset - chunk.startOffset;
 
-                    if (options?.expand && options.expand.length > 0) {
-                        chunkUrl.searchParams.set("expand", options.expand.join(","));
-                    }
+            while (chunkEntries < targetItemCount) {
+                const remaining = targetItemCount - chunkEntries;
+                const limit = Math.min(remaining, maxLimit);
 
-                    const response = await fetch(chunkUrl, {
-                        headers: {
-                            "Authorization": apiKey,
-                            "Content-Type": "application/json",
-                        },
-                    });
-
-                    if (!response.ok) {
-                        throw new Error(
-                            `API request failed: ${response.status} ${response.statusText}`,
-                        );
-                    }
+                const chunkUrl = buildUrl("/api/v2/approval-requests", baseUrl);
+                chunkUrl.searchParams.set("offset", currentOffset.toString());
+                chunkUrl.searchParams.set("limit", limit.toString());
 
-                    const data: APIResponse = await response.json();
-
-                    for (const entry of data.items) {
-                        queue.push(entry);
-                        chunkEntries++;
-
-                        // Report progress every N entries
-                        if (chunkEntries - lastReportedCount >= reportInterval) {
-                            lastReportedCount = chunkEntries;
-                            const percentage = Math.round((completedChunks / chunks.length) * 100);
-                            options.onProgress?.({
-                                type: "fetching",
-                                totalChunks: chunks.length,
-                                completedChunks,
-                                percentage,
-                                chunkIndex: index,
-                                entriesCount: chunkEntries,
-                                totalEntriesFetched,
-                            });
-                        }
-                    }
+                // Apply filters and expand
+                if (filter) {
+                    chunkUrl.searchParams.set("filter", filter);
+                }
 
-                    // Move to next page within this worker's range
-                    currentOffset += data.items.length;
+                if (options?.expand && options.expand.length > 0) {
+                    chunkUrl.searchParams.set("expand", options.expand.join(","));
+                }
 
-                    // Stop if we got no items
-                    if (data.items.length === 0) {
-                        break;
+                const data = await getJson<APIResponse>(apiKey, chunkUrl, { baseUrl, retry, signal });
+
+                for (const entry of data.items) {
+                    await push(entry);
+                    chunkEntries++;
+
+                    // Report progress every N entries
+                    if (chunkEntries - lastReportedCount >= reportInterval) {
+                        lastReportedCount = chunkEntries;
+                        const percentage = Math.round((completedChunks / chunks.length) * 100);
+                        options.onProgress?.({
+                            type: "fetching",
+                            totalChunks: chunks.length,
+                            completedChunks,
+                            percentage,
+                            chunkIndex: index,
+                            entriesCount: chunkEntries,
+                            totalEntriesFetched,
+                        });
                     }
                 }
 
-                completedChunks++;
-                const percentage = Math.round((completedChunks / chunks.length) * 100);
-                options.onProgress?.({
-                    type: "chunk_complete",
-                    totalChunks: chunks.length,
-                    completedChunks,
-                    percentage,
-                    chunkIndex: index,
-                    entriesCount: chunkEntries,
-                    totalEntriesFetched,
-                });
-            } catch (err) {
-                hasError = err as Error;
-            } finally {
-                activeChunks--;
-            }
-        })();
-    });
-
-    // Yield from queue as entries arrive, deduplicating in real-time
-    while (activeChunks > 0 || queue.length > 0) {
-        if (hasError) throw hasError;
+                // Move to next page within this worker's range
+                currentOffset += data.items.length;
 
-        while (queue.length > 0) {
-            const entry = queue.shift()!;
-            const id = entry._id as string;
-
-            if (!seenIds.has(id)) {
-                seenIds.add(id);
-                totalEntriesFetched++;
-                yield entry;
-            } else {
-                totalDuplicates++;
+                // Stop if we got no items
+                if (data.items.length === 0) {
+                    break;
+                }
             }
+
+            completedChunks++;
+            const percentage = Math.round((completedChunks / chunks.length) * 100);
+            options.onProgress?.({
+                type: "chunk_complete",
+                totalChunks: chunks.length,
+                completedChunks,
+                percentage,
+                chunkIndex: index,
+                entriesCount: chunkEntries,
+                totalEntriesFetched,
+            });
         }
+    );
+
+    // Yield entries as they arrive, deduplicating in real-time
+    for await (const entry of mergeProducers(producers, { bufferSize: options.bufferSize })) {
+        const id = entry._id as string;
 
-        // Small delay if queue is empty but chunks are still active
-        if (activeChunks > 0 && queue.length === 0) {
-            await new Promise((resolve) => setTimeout(resolve, 10));
+        if (!seenIds.has(id)) {
+            seenIds.add(id);
+            totalEntriesFetched++;
+            yield entry;
+        } else {
+            totalDuplicates++;
         }
     }
 
@@ -469,7 +357,7 @@ function showHelp() {
     console.log(`
 Get All Approval Requests
 
-Fetches approval requests from LaunchDarkly and outputs them as NDJSON.
+Fetches approval requests from LaunchDarkly and outputs them as NDJSON (or JSON, CSV or TSV).
 
 USAGE:
     deno run --allow-net --allow-env get-all-approval-requests.ts [OPTIONS]
@@ -525,6 +413,15 @@ OTHER OPTIONS:
         Starting offset for pagination
         (default: 0)
 
+OUTPUT OPTIONS:
+    --format <format>
+        Output format: ndjson, json, csv, or tsv
+        (default: ndjson)
+
+    --fields <fields>
+        Comma-separated fields to output, using dots for nested fields
+        (e.g. _id,status,requestorId,flag.key)
+
 EXAMPLES:
     # Get all approval requests
     deno run --allow-net --allow-env get-all-approval-requests.ts
@@ -543,6 +440,11 @@ EXAMPLES:
       --filter-review-status pending \\
       --expand flag --expand project
 
+    # Export pending approvals as CSV for a spreadsheet
+    deno run --allow-net --allow-env get-all-approval-requests.ts \\
+      --filter-review-status pending \\
+      --format csv --fields _id,requestorId,creationDate,description
+
     # Calculate metrics with jq
     deno run --allow-net --allow-env get-all-approval-requests.ts | \\
       jq -s 'group_by(.reviewStatus) | map({status: .[0].reviewStatus, count: length})'
@@ -568,6 +470,8 @@ if (import.meta.main) {
             "base-url",
             "max",
             "offset",
+            "format",
+            "fields",
         ],
         collect: [
             "filter-notify-member-id",
@@ -678,13 +582,23 @@ if (import.meta.main) {
         }
     }
 
+    // Parse output options
+    const output: OutputOptions = {};
+    try {
+        if (flags.format) {
+            output.format = parseFormat(flags.format as string);
+        }
+        if (flags.fields) {
+            output.fields = parseFields(flags.fields as string);
+        }
+    } catch (error) {
+        console.error(`Error: ${(error as Error).message}`);
+        Deno.exit(1);
+    }
+
     // Parse base URL
     if (flags["base-url"]) {
-        baseUrl = flags["base-url"] as string;
-        // Ensure it has https:// prefix
-        if (!baseUrl.startsWith("http://") && !baseUrl.startsWith("https://")) {
-            baseUrl = "https://" + baseUrl;
-        }
+        baseUrl = normalizeBaseUrl(flags["base-url"] as string);
     }
 
     const options = {
@@ -701,8 +615,8 @@ if (import.meta.main) {
             const isTTY = Deno.stderr.isTerminal();
 
             // Use parallel fetching with progress logging to stderr (streaming)
-            for await (
-                const entry of getAllApprovalRequestsParallel(API_KEY, {
+            await writeRecords(
+                getAllApprovalRequestsParallel(API_KEY, {
                     ...options,
                     parallelChunks,
                     onProgress: (progress) => {
@@ -762,18 +676,15 @@ if (import.meta.main) {
                             }
                         }
                     },
-                })
-            ) {
-                console.log(JSON.stringify(entry, null, 0));
-            }
+                }),
+                output,
+            );
         } else {
             // Use sequential fetching (default, streaming)
-            for await (const entry of getAllApprovalRequests(API_KEY, options)) {
-                console.log(JSON.stringify(entry, null, 0));
-            }
+            await writeRecords(getAllApprovalRequests(API_KEY, options), output);
         }
     } catch (error) {
-        console.error(`Error: ${error.message}`);
+        console.error(`Error: ${(error as Error).message}`);
         Deno.exit(1);
     }
 }
@@ -1,16 +1,34 @@
 #!/usr/bin/env -S deno run --allow-net --allow-env
 
-interface APIResponse {
-    items: Record<string, unknown>[];
-    _links: {
-        next?: { href: string };
-    };
+import { buildUrl, DEFAULT_BASE_URL, getJson, normalizeBaseUrl, paginatePages, withRetryBudget } from "../ld-client/ld-client.ts";
+import type { ClientOptions, Page, RetryOptions } from "../ld-client/ld-client.ts";
+import { mergeProducers } from "../ld-client/merge.ts";
+import type { Push } from "../ld-client/merge.ts";
+import { parseFields, parseFormat, readNdjson, writeRecords } from "../output-format/output-format.ts";
+import type { OutputOptions } from "../output-format/output-format.ts";
+import type { Flag } from "../flag-model/flag-model.ts";
+
+const DURATION_UNITS: Record<string, number> = {
+    s: 1000,
+    m: 60 * 1000,
+    h: 60 * 60 * 1000,
+    d: 24 * 60 * 60 * 1000,
+    w: 7 * 24 * 60 * 60 * 1000,
+};
+
+const DURATION_PATTERN = /^(\d+)\s*([smhdw])$/;
+
+/**
+ * Whether a time option is a relative duration such as "90d" rather than a point in time
+ */
+function isDuration(value: string | number): boolean {
+    return typeof value === "string" && DURATION_PATTERN.test(value.trim());
 }
 
 /**
- * Convert ISO 8601 string or unix timestamp to milliseconds
+ * Convert ISO 8601 string, unix timestamp or relative duration (e.g. "90d", "12h", meaning that long ago) to milliseconds
  */
-function toMilliseconds(value: string | number): number {
+export function toMilliseconds(value: string | number, now = Date.now()): number {
     if (typeof value === "number") {
         return value;
     }
@@ -21,6 +39,12 @@ function toMilliseconds(value: string | number): number {
         return numValue;
     }
 
+    // Then as a duration before now
+    const duration = value.trim().match(DURATION_PATTERN);
+    if (duration) {
+        return now - Number(duration[1]) * DURATION_UNITS[duration[2]];
+    }
+
     // Try to parse as ISO 8601 string
     const date = new Date(value);
     if (isNaN(date.getTime())) {
@@ -29,91 +53,120 @@ function toMilliseconds(value: string | number): number {
     return date.getTime();
 }
 
-export async function* getAllAuditLogEntries(
-    apiKey: string,
-    options?: {
-        before?: string | number;
-        after?: string | number;
-        query?: string;
-        spec?: string;
-        baseUrl?: string;
-    },
-): AsyncGenerator<Record<string, unknown>> {
-    const baseUrl = options?.baseUrl || "https://app.launchdarkly.com";
-    let nextUrl: URL | null = new URL("/api/v2/auditlog", baseUrl);
+interface AuditLogQueryOptions {
+    before?: string | number;
+    after?: string | number;
+    query?: string;
+    spec?: string;
+    baseUrl?: string;
+    retry?: RetryOptions;
+    signal?: AbortSignal;
+}
+
+function buildAuditLogUrl(options?: AuditLogQueryOptions): URL {
+    const url = buildUrl("/api/v2/auditlog", options?.baseUrl || DEFAULT_BASE_URL);
 
     // Set up initial query parameters
-    nextUrl.searchParams.set("limit", "20");
+    url.searchParams.set("limit", "20");
 
     if (options?.before !== undefined) {
-        nextUrl.searchParams.set("before", toMilliseconds(options.before).toString());
+        url.searchParams.set("before", toMilliseconds(options.before).toString());
     }
 
     if (options?.after !== undefined) {
-        nextUrl.searchParams.set("after", toMilliseconds(options.after).toString());
+        url.searchParams.set("after", toMilliseconds(options.after).toString());
     }
 
     if (options?.query) {
-        nextUrl.searchParams.set("q", options.query);
+        url.searchParams.set("q", options.query);
     }
 
     if (options?.spec) {
-        nextUrl.searchParams.set("spec", options.spec);
+        url.searchParams.set("spec", options.spec);
     }
 
-    while (nextUrl) {
-        const url = new URL(nextUrl, baseUrl);
-        try {
-            const response = await fetch(url, {
-                headers: {
-                    "Authorization": apiKey,
-                    "Content-Type": "application/json",
-                },
-            });
-
-            if (response.status === 429) {
-                // Handle rate limiting
-                const resetTime = response.headers.get("X-RateLimit-Reset");
-                if (resetTime) {
-                    const waitMs = Math.min(
-                        (parseInt(resetTime) * 1000) - Date.now(),
-                        1000,
-                    );
+    return url;
+}
 
-                    await new Promise((resolve) => setTimeout(resolve, waitMs));
-                    continue; // Retry the same URL
-                }
-            }
+/**
+ * Fetch audit log pages, optionally starting from a `_links.next` cursor instead of the first page
+ */
+export function getAuditLogPages(
+    apiKey: string,
+    options?: AuditLogQueryOptions & { startUrl?: string },
+): AsyncGenerator<Page<Record<string, unknown>>> {
+    const baseUrl = options?.baseUrl || DEFAULT_BASE_URL;
+    const url = options?.startUrl ? buildUrl(options.startUrl, baseUrl) : buildAuditLogUrl(options);
+    return paginatePages(apiKey, url, { baseUrl, retry: options?.retry, signal: options?.signal });
+}
 
-            if (!response.ok) {
-                if (response.status >= 500 || response.status === 429) {
-                    // Retry after a short delay for server errors and rate limits
-                    await new Promise((resolve) => setTimeout(resolve, 1000));
-                    continue;
-                }
-                throw new Error(
-                    `API request failed: ${response.status} ${response.statusText}`,
-                );
-            }
+export async function* getAllAuditLogEntries(
+    apiKey: string,
+    options?: AuditLogQueryOptions,
+): AsyncGenerator<Record<string, unknown>> {
+    for await (const page of getAuditLogPages(apiKey, options)) {
+        yield* page.items;
+    }
+}
 
-            const data: APIResponse = await response.json();
+/**
+ * An audit log entry as returned by `getAuditLogEntry`. List responses leave out
+ * `previousVersion`, `currentVersion` and `delta`.
+ */
+export interface AuditLogEntry {
+    _id: string;
+    date: number;
+    kind: string;                   // Resource kind, e.g. "flag" or "segment"
+    name?: string;
+    description?: string;
+    shortDescription?: string;
+    titleVerb?: string;             // e.g. "updated the flag"
+    comment?: string;               // Comment the member left with the change
+    accesses?: Array<{
+        action: string;             // e.g. "updateOn", "updateRules", "createFlag"
+        resource: string;           // e.g. "proj/default:env/production:flag/new-checkout"
+    }>;
+    member?: {
+        _id?: string;
+        email: string;
+        firstName?: string;
+        lastName?: string;
+    };
+    token?: {
+        _id?: string;
+        name: string;
+    };
+    previousVersion?: Partial<Flag> | null;     // Flag entries: the flag before the change
+    currentVersion?: Partial<Flag> | null;      // Flag entries: the flag after the change
+    _links?: Record<string, { href: string; type?: string }>;
+}
 
-            // Yield each audit log entry
-            for (const entry of data.items) {
-                yield entry;
-            }
+/**
+ * Fetch one audit log entry with its full detail, including the resource before and after the change
+ */
+export function getAuditLogEntry(
+    apiKey: string,
+    id: string,
+    options?: ClientOptions & { signal?: AbortSignal },
+): Promise<AuditLogEntry> {
+    return getJson<AuditLogEntry>(apiKey, `/api/v2/auditlog/${id}`, {
+        ...options,
+        apiVersion: "beta",
+    });
+}
 
-            // Get next page URL if it exists
-            nextUrl = data._links?.next?.href ? new URL(data._links.next.href, baseUrl) : null;
-        } catch (error) {
-            if (error instanceof TypeError && error.message.includes("fetch")) {
-                // Network error, retry after a delay
-                await new Promise((resolve) => setTimeout(resolve, 1000));
-                continue;
-            }
-            throw error;
-        }
+/**
+ * Describe who made a change: the member's name and email, or the access token's name
+ */
+export function describeActor(entry: AuditLogEntry): string {
+    if (entry.member) {
+        const name = [entry.member.firstName, entry.member.lastName].filter((part) => part).join(" ");
+        return name ? `${name} (${entry.member.email})` : entry.member.email;
     }
+    if (entry.token) {
+        return `token ${entry.token.name}`;
+    }
+    return "unknown";
 }
 
 export interface ProgressInfo {
@@ -133,9 +186,137 @@ export interface ProgressCallback {
     (progress: ProgressInfo): void;
 }
 
+export interface ChunkCheckpoint {
+    after: number;
+    before: number;
+    cursor: string | null;    // Page to resume from, or null once the chunk is complete
+    skip: number;             // Entries of the cursor page that were already emitted
+    entriesEmitted: number;
+    oldestEmitted?: { date: number; ids: string[] };   // Date of the last entry emitted and the IDs emitted on it
+}
+
+/**
+ * Progress of a parallel export, saved after every page of entries so a re-run can resume it
+ */
+export interface AuditLogCheckpoint {
+    version: 1;
+    after: number;
+    before: number;
+    query?: string;
+    spec?: string;
+    boundaryIds: string[];    // IDs emitted with a date on a chunk edge, to deduplicate after resuming
+    chunks: ChunkCheckpoint[];
+}
+
+export interface CheckpointCallback {
+    (checkpoint: AuditLogCheckpoint): void;
+}
+
+// Store cursors relative to the base URL so a checkpoint isn't tied to one host
+function toRelativeUrl(url: string): string {
+    const parsed = new URL(url);
+    return parsed.pathname + parsed.search;
+}
+
+function createChunk(after: number, before: number, options: AuditLogQueryOptions): ChunkCheckpoint {
+    const url = buildAuditLogUrl({ query: options.query, spec: options.spec, after, before });
+    return {
+        after,
+        before,
+        cursor: toRelativeUrl(url.toString()),
+        skip: 0,
+        entriesEmitted: 0,
+    };
+}
+
+/**
+ * Split the time range into equal chunks and record where each one starts
+ */
+function createCheckpoint(
+    after: number,
+    before: number,
+    parallelChunks: number,
+    options: AuditLogQueryOptions,
+): AuditLogCheckpoint {
+    const totalRange = before - after;
+    const chunkSize = Math.ceil(totalRange / parallelChunks);
+
+    const chunks: ChunkCheckpoint[] = [];
+    for (let i = 0; i < parallelChunks; i++) {
+        const chunkAfter = after + (i * chunkSize);
+        const chunkBefore = Math.min(after + ((i + 1) * chunkSize), before);
+        chunks.push(createChunk(chunkAfter, chunkBefore, options));
+    }
+
+    return {
+        version: 1,
+        after,
+        before,
+        query: options.query,
+        spec: options.spec,
+        boundaryIds: [],
+        chunks,
+    };
+}
+
+/**
+ * Read a checkpoint file, returning null if it doesn't exist yet
+ */
+export function loadCheckpoint(path: string): AuditLogCheckpoint | null {
+    let text: string;
+    try {
+        text = Deno.readTextFileSync(path);
+    } catch (error) {
+        if (error instanceof Deno.errors.NotFound) {
+            return null;
+        }
+        throw error;
+    }
+
+    const checkpoint = JSON.parse(text) as AuditLogCheckpoint;
+    if (checkpoint.version !== 1 || !Array.isArray(checkpoint.chunks)) {
+        throw new Error(`Unsupported checkpoint file: ${path}`);
+    }
+    return checkpoint;
+}
+
+/**
+ * Write a checkpoint file atomically so a crash mid-write can't corrupt it
+ */
+export function saveCheckpoint(path: string, checkpoint: AuditLogCheckpoint): void {
+    const tempPath = `${path}.tmp`;
+    Deno.writeTextFileSync(tempPath, JSON.stringify(checkpoint));
+    Deno.renameSync(tempPath, path);
+}
+
+interface QueuedEntry {
+    entry?: Record<string, unknown>;   // Undefined for pages with nothing left to emit
+    chunkIndex: number;
+    pageUrl: string;
+    nextUrl: string | null;
+    indexInPage: number;
+    lastInPage: boolean;
+}
+
 /**
  * Fetch audit log entries in parallel by splitting the time range into chunks
- * Uses Set-based deduplication to avoid duplicate entries
+ *
+ * Chunks share their edge timestamps, so an entry dated exactly on an edge is
+ * returned by both neighbouring chunks. Only the IDs of those entries are kept
+ * for deduplication, which keeps memory flat however long the export runs.
+ *
+ * Fetched entries wait in a buffer of `bufferSize` entries; once it is full the
+ * chunks pause until the consumer catches up. If a chunk fails, the error is
+ * thrown immediately and the other chunk fetches are cancelled.
+ *
+ * Chunks that are still paging after `splitAfterPages` pages have the rest of
+ * their window split in two and handed to idle workers, so a dense period
+ * doesn't end up as one slow chunk.
+ *
+ * Pass a checkpoint from a previous run to resume it; `onCheckpoint` is called
+ * once the consumer has processed the last entry of each page (when it asks for
+ * the next one), and once more when the export ends, fails or the consumer
+ * stops iterating.
  */
 export async function* getAllAuditLogEntriesParallel(
     apiKey: string,
@@ -147,29 +328,36 @@ export async function* getAllAuditLogEntriesParallel(
         parallelChunks: number;
         onProgress?: ProgressCallback;
         baseUrl?: string;
+        retry?: RetryOptions;
+        concurrency?: number;       // Maximum chunks fetched at once (default: parallelChunks)
+        splitAfterPages?: number;   // Pages after which a busy chunk is split for idle workers (default: 10)
+        bufferSize?: number;        // Entries buffered before fetching pauses (default: 1000)
+        checkpoint?: AuditLogCheckpoint;
+        onCheckpoint?: CheckpointCallback;
     },
 ): AsyncGenerator<Record<string, unknown>> {
-    // Calculate time range
-    const before = options.before !== undefined ? toMilliseconds(options.before) : Date.now();
-    const after = options.after !== undefined
-        ? toMilliseconds(options.after)
-        : Date.now() - (30 * 24 * 60 * 60 * 1000);
+    // All chunks draw from the same retry budget
+    const retry = withRetryBudget(options.retry);
 
-    const totalRange = before - after;
-    const chunkSize = Math.ceil(totalRange / options.parallelChunks);
+    // Calculate time range, unless resuming with the range of the previous run
+    const before = options.checkpoint?.before ??
+        (options.before !== undefined ? toMilliseconds(options.before) : Date.now());
+    const after = options.checkpoint?.after ??
+        (options.after !== undefined
+            ? toMilliseconds(options.after)
+            : Date.now() - (30 * 24 * 60 * 60 * 1000));
 
     // Create time chunks
-    const chunks: Array<{ after: number; before: number }> = [];
-    for (let i = 0; i < options.parallelChunks; i++) {
-        const chunkAfter = after + (i * chunkSize);
-        const chunkBefore = Math.min(after + ((i + 1) * chunkSize), before);
-        chunks.push({ after: chunkAfter, before: chunkBefore });
-    }
+    const checkpoint = options.checkpoint ??
+        createCheckpoint(after, before, options.parallelChunks, options);
+    const chunks = checkpoint.chunks;
+    const concurrency = options.concurrency ?? options.parallelChunks;
+    const splitAfterPages = options.splitAfterPages ?? 10;
 
     // Report start
     options.onProgress?.({
         type: "start",
-        totalChunks: options.parallelChunks,
+        totalChunks: chunks.length,
         completedChunks: 0,
         percentage: 0,
         timeRange: {
@@ -178,119 +366,371 @@ export async function* getAllAuditLogEntriesParallel(
         },
     });
 
-    // Track seen entry IDs to avoid duplicates
-    const seenIds = new Set<string>();
-    let completedChunks = 0;
+    // Track IDs of entries dated on a chunk edge, including those emitted before a resume
+    const edgeIds = new Set<string>(checkpoint.boundaryIds);
+    const chunkEdges = new Set<number>(chunks.flatMap((chunk) => [chunk.after, chunk.before]));
+    let completedChunks = chunks.filter((chunk) => chunk.cursor === null).length;
     let totalEntriesFetched = 0;
     let totalDuplicates = 0;
 
-    // Queue for entries as they're fetched
-    const queue: Array<Record<string, unknown>> = [];
-    let activeChunks = chunks.length;
-    let hasError: Error | null = null;
+    const pendingChunks = chunks
+        .map((_, index) => index)
+        .filter((index) => chunks[index].cursor !== null);
+    let busyWorkers = 0;
+
+    // Idle workers wait here until a chunk is split off or every worker is idle
+    let idleWaiters: Array<() => void> = [];
+    const wakeIdleWorkers = () => {
+        const waiters = idleWaiters;
+        idleWaiters = [];
+        waiters.forEach((waiter) => waiter());
+    };
 
-    // Start all chunk fetchers in parallel
-    chunks.forEach((chunk, index) => {
-        (async () => {
-            let chunkEntries = 0;
-            let lastReportedCount = 0;
-            const reportInterval = 50; // Report every 50 entries
+    // Fetch one chunk, splitting off the rest of its window if it is dense and a worker is idle
+    const fetchChunk = async (index: number, push: Push<QueuedEntry>, signal: AbortSignal) => {
+        const chunk = chunks[index];
+        let chunkEntries = 0;
+        let lastReportedCount = 0;
+        const reportInterval = 50; // Report every 50 entries
+        let skip = chunk.skip;
+        let pagesFetched = 0;
+
+        options.onProgress?.({
+            type: "chunk_start",
+            totalChunks: chunks.length,
+            completedChunks,
+            percentage: Math.round((completedChunks / chunks.length) * 100),
+            chunkIndex: index,
+            timeRange: {
+                after: new Date(chunk.after).toISOString(),
+                before: new Date(chunk.before).toISOString(),
+            },
+            totalEntriesFetched,
+        });
+
+        // The window may have been narrowed by a split before a resume
+        const startUrl = new URL(chunk.cursor!, "http://cursor");
+        startUrl.searchParams.set("after", chunk.after.toString());
+
+        for await (
+            const page of getAuditLogPages(apiKey, {
+                startUrl: startUrl.pathname + startUrl.search,
+                baseUrl: options.baseUrl,
+                retry,
+                signal,
+            })
+        ) {
+            pagesFetched++;
+            const pageUrl = toRelativeUrl(page.url);
+            let nextUrl = page.nextUrl ? toRelativeUrl(page.nextUrl) : null;
+
+            // Entries are newest first, so everything older than the last one is still to come
+            const oldestDate = page.items.length > 0
+                ? page.items[page.items.length - 1].date as number
+                : undefined;
+            const shouldSplit = nextUrl !== null &&
+                oldestDate !== undefined &&
+                pagesFetched >= splitAfterPages &&
+                busyWorkers < concurrency &&
+                pendingChunks.length === 0 &&
+                oldestDate - chunk.after > 1;
+
+            if (shouldSplit) {
+                // Narrow this chunk to what it has covered and hand the rest out as two new chunks
+                const remainingAfter = chunk.after;
+                const middle = Math.floor((remainingAfter + oldestDate!) / 2);
+                chunk.after = oldestDate!;
+                nextUrl = null;
+
+                // The new chunk below returns the entries on the split date again, including any
+                // this chunk emitted on earlier pages before that date became an edge
+                if (chunk.oldestEmitted?.date === oldestDate) {
+                    for (const id of chunk.oldestEmitted.ids) {
+                        if (!edgeIds.has(id)) {
+                            edgeIds.add(id);
+                            checkpoint.boundaryIds.push(id);
+                        }
+                    }
+                }
+                for (const [splitAfter, splitBefore] of [[middle, oldestDate!], [remainingAfter, middle]]) {
+                    chunks.push(createChunk(splitAfter, splitBefore, checkpoint));
+                    chunkEdges.add(splitAfter);
+                    chunkEdges.add(splitBefore);
+                    pendingChunks.push(chunks.length - 1);
+                }
+                wakeIdleWorkers();
+            }
 
-            try {
-                options.onProgress?.({
-                    type: "chunk_start",
-                    totalChunks: options.parallelChunks,
-                    completedChunks,
-                    percentage: 0,
+            // Skip entries already emitted from the first page of a resumed chunk
+            if (skip >= page.items.length) {
+                await push({
                     chunkIndex: index,
-                    timeRange: {
-                        after: new Date(chunk.after).toISOString(),
-                        before: new Date(chunk.before).toISOString(),
-                    },
-                    totalEntriesFetched,
+                    pageUrl,
+                    nextUrl,
+                    indexInPage: page.items.length - 1,
+                    lastInPage: true,
                 });
+            }
+            for (let i = skip; i < page.items.length; i++) {
+                await push({
+                    entry: page.items[i],
+                    chunkIndex: index,
+                    pageUrl,
+                    nextUrl,
+                    indexInPage: i,
+                    lastInPage: i === page.items.length - 1,
+                });
+                chunkEntries++;
+            }
+            skip = 0;
 
-                for await (
-                    const entry of getAllAuditLogEntries(apiKey, {
-                        query: options.query,
-                        spec: options.spec,
-                        after: chunk.after,
-                        before: chunk.before,
-                        baseUrl: options.baseUrl,
-                    })
-                ) {
-                    queue.push(entry);
-                    chunkEntries++;
-
-                    // Report progress every N entries
-                    if (chunkEntries - lastReportedCount >= reportInterval) {
-                        lastReportedCount = chunkEntries;
-                        const percentage = Math.round((completedChunks / options.parallelChunks) * 100);
-                        options.onProgress?.({
-                            type: "fetching",
-                            totalChunks: options.parallelChunks,
-                            completedChunks,
-                            percentage,
-                            chunkIndex: index,
-                            entriesCount: chunkEntries,
-                            totalEntriesFetched,
-                        });
-                    }
-                }
-
-                completedChunks++;
-                const percentage = Math.round((completedChunks / options.parallelChunks) * 100);
+            // Report progress every N entries
+            if (chunkEntries - lastReportedCount >= reportInterval) {
+                lastReportedCount = chunkEntries;
+                const percentage = Math.round((completedChunks / chunks.length) * 100);
                 options.onProgress?.({
-                    type: "chunk_complete",
-                    totalChunks: options.parallelChunks,
+                    type: "fetching",
+                    totalChunks: chunks.length,
                     completedChunks,
                     percentage,
                     chunkIndex: index,
                     entriesCount: chunkEntries,
                     totalEntriesFetched,
                 });
-            } catch (err) {
-                hasError = err as Error;
+            }
+
+            if (shouldSplit) {
+                break;
+            }
+        }
+
+        completedChunks++;
+        const percentage = Math.round((completedChunks / chunks.length) * 100);
+        options.onProgress?.({
+            type: "chunk_complete",
+            totalChunks: chunks.length,
+            completedChunks,
+            percentage,
+            chunkIndex: index,
+            entriesCount: chunkEntries,
+            totalEntriesFetched,
+        });
+    };
+
+    // A fixed number of workers take chunks until none are left
+    const worker = async (push: Push<QueuedEntry>, signal: AbortSignal) => {
+        signal.addEventListener("abort", wakeIdleWorkers, { once: true });
+        while (!signal.aborted) {
+            const index = pendingChunks.shift();
+            if (index === undefined) {
+                // A busy worker may still split its chunk, so only stop once all are idle
+                if (busyWorkers === 0) break;
+                await new Promise<void>((resolve) => idleWaiters.push(resolve));
+                continue;
+            }
+
+            busyWorkers++;
+            try {
+                await fetchChunk(index, push, signal);
             } finally {
-                activeChunks--;
+                busyWorkers--;
+                wakeIdleWorkers();
             }
-        })();
-    });
+        }
+    };
+
+    const workers = Array.from({ length: concurrency }, () => worker);
 
-    // Yield from queue as entries arrive, deduplicating in real-time
-    while (activeChunks > 0 || queue.length > 0) {
-        if (hasError) throw hasError;
+    // The checkpoint is only reported at page boundaries, since it grows with the export
+    let unsaved = false;
+    const reportCheckpoint = () => {
+        options.onCheckpoint?.(checkpoint);
+        unsaved = false;
+    };
 
-        while (queue.length > 0) {
-            const entry = queue.shift()!;
-            const id = entry._id as string;
+    // Yield entries as they arrive, deduplicating in real-time
+    try {
+        for await (const item of mergeProducers(workers, { bufferSize: options.bufferSize })) {
+            const chunk = chunks[item.chunkIndex];
 
-            if (!seenIds.has(id)) {
-                seenIds.add(id);
+            // Move the chunk's cursor past this entry
+            chunk.cursor = item.lastInPage ? item.nextUrl : item.pageUrl;
+            chunk.skip = item.lastInPage ? 0 : item.indexInPage + 1;
+            unsaved = true;
+
+            const id = item.entry?._id as string | undefined;
+            const onEdge = item.entry !== undefined && chunkEdges.has(item.entry.date as number);
+            if (item.entry && id !== undefined && !(onEdge && edgeIds.has(id))) {
                 totalEntriesFetched++;
-                yield entry;
+                chunk.entriesEmitted++;
+                const date = item.entry.date as number;
+                if (chunk.oldestEmitted?.date === date) {
+                    chunk.oldestEmitted.ids.push(id);
+                } else {
+                    chunk.oldestEmitted = { date, ids: [id] };
+                }
+                if (onEdge) {
+                    edgeIds.add(id);
+                    checkpoint.boundaryIds.push(id);
+                }
+
+                try {
+                    yield item.entry;
+                } finally {
+                    // Resumed (or stopped) by the consumer, so the entry has been processed
+                    if (item.lastInPage) reportCheckpoint();
+                }
             } else {
-                totalDuplicates++;
+                if (item.entry) {
+                    totalDuplicates++;
+                }
+                if (item.lastInPage) reportCheckpoint();
             }
         }
-
-        // Small delay if queue is empty but chunks are still active
-        if (activeChunks > 0 && queue.length === 0) {
-            await new Promise((resolve) => setTimeout(resolve, 10));
-        }
+    } finally {
+        // Also save mid-page progress once the export completes, fails or is stopped by the consumer
+        if (unsaved) reportCheckpoint();
     }
 
     // Report completion
     options.onProgress?.({
         type: "complete",
-        totalChunks: options.parallelChunks,
-        completedChunks: options.parallelChunks,
+        totalChunks: chunks.length,
+        completedChunks: chunks.length,
         percentage: 100,
-        uniqueEntries: seenIds.size,
+        uniqueEntries: totalEntriesFetched,
         duplicatesRemoved: totalDuplicates,
     });
 }
 
+export interface SortOptions {
+    runSize?: number;    // Entries sorted in memory before spilling a run to disk (default: 10000)
+    tempDir?: string;    // Directory for the temporary run files (default: system temp directory)
+}
+
+const byDate = (a: Record<string, unknown>, b: Record<string, unknown>) =>
+    ((a.date as number) || 0) - ((b.date as number) || 0);
+
+interface RunHead {
+    entry: Record<string, unknown>;
+    run: number;
+}
+
+// Binary min-heap on (date, run), so entries with equal dates keep their run order
+class RunHeap {
+    private heads: RunHead[] = [];
+
+    get size(): number {
+        return this.heads.length;
+    }
+
+    private less(a: RunHead, b: RunHead): boolean {
+        const diff = byDate(a.entry, b.entry);
+        return diff < 0 || (diff === 0 && a.run < b.run);
+    }
+
+    push(head: RunHead): void {
+        const heads = this.heads;
+        heads.push(head);
+        let i = heads.length - 1;
+        while (i > 0) {
+            const parent = (i - 1) >> 1;
+            if (!this.less(heads[i], heads[parent])) break;
+            [heads[i], heads[parent]] = [heads[parent], heads[i]];
+            i = parent;
+        }
+    }
+
+    pop(): RunHead | undefined {
+        const heads = this.heads;
+        const top = heads[0];
+        const last = heads.pop();
+        if (heads.length > 0 && last) {
+            heads[0] = last;
+            let i = 0;
+            while (true) {
+                const left = 2 * i + 1;
+                const right = left + 1;
+                let smallest = i;
+                if (left < heads.length && this.less(heads[left], heads[smallest])) smallest = left;
+                if (right < heads.length && this.less(heads[right], heads[smallest])) smallest = right;
+                if (smallest === i) break;
+                [heads[i], heads[smallest]] = [heads[smallest], heads[i]];
+                i = smallest;
+            }
+        }
+        return top;
+    }
+}
+
+/**
+ * Sort audit log entries oldest-first without holding them all in memory.
+ *
+ * Entries are collected into runs of `runSize`, each run is sorted and written
+ * to a temporary NDJSON file, and the runs are then merged back together. Only
+ * one run plus one entry per run file is in memory at a time. Ranges that fit
+ * in a single run are sorted in memory without touching the disk.
+ */
+export async function* sortAuditLogEntries(
+    entries: AsyncIterable<Record<string, unknown>>,
+    options?: SortOptions,
+): AsyncGenerator<Record<string, unknown>> {
+    const runSize = options?.runSize ?? 10_000;
+    let run: Record<string, unknown>[] = [];
+    let tempDir: string | undefined;
+    const runFiles: string[] = [];
+    const runs: AsyncIterator<Record<string, unknown>>[] = [];
+
+    try {
+        for await (const entry of entries) {
+            run.push(entry);
+            if (run.length >= runSize) {
+                tempDir ??= await Deno.makeTempDir({ dir: options?.tempDir, prefix: "audit-log-sort-" });
+                const runFile = `${tempDir}/run-${runFiles.length}.ndjson`;
+                run.sort(byDate);
+                await Deno.writeTextFile(runFile, run.map((e) => JSON.stringify(e) + "\n").join(""));
+                runFiles.push(runFile);
+                run = [];
+            }
+        }
+
+        run.sort(byDate);
+        if (runFiles.length === 0) {
+            yield* run;
+            return;
+        }
+
+        // The last, partial run is merged straight from memory
+        runs.push(...runFiles.map((file) => readNdjson(file)));
+        runs.push((async function* () {
+            yield* run;
+        })());
+
+        const heap = new RunHeap();
+        for (let i = 0; i < runs.length; i++) {
+            const next = await runs[i].next();
+            if (!next.done) {
+                heap.push({ entry: next.value, run: i });
+            }
+        }
+
+        while (heap.size > 0) {
+            const { entry, run: index } = heap.pop()!;
+            yield entry;
+            const next = await runs[index].next();
+            if (!next.done) {
+                heap.push({ entry: next.value, run: index });
+            }
+        }
+    } finally {
+        // Close any run files still open if the consumer stopped early
+        await Promise.all(runs.map((r) => r.return?.()));
+        if (tempDir) {
+            await Deno.remove(tempDir, { recursive: true });
+        }
+    }
+}
+
 // Main execution
 if (import.meta.main) {
     const API_KEY = Deno.env.get("LAUNCHDARKLY_API_KEY") || Deno.env.get("LD_API_KEY");
@@ -313,9 +753,15 @@ if (import.meta.main) {
         query?: string;
         spec?: string;
         baseUrl?: string;
+        retry?: RetryOptions;
     } = {};
+    const retry: RetryOptions = {};
     let parallelChunks: number | undefined;
+    let concurrency: number | undefined;
+    let splitAfterPages: number | undefined;
     let sorted = false;
+    let checkpointPath: string | undefined;
+    const output: OutputOptions = {};
 
     for (let i = 0; i < Deno.args.length; i++) {
         const arg = Deno.args[i];
@@ -356,13 +802,55 @@ if (import.meta.main) {
                         Deno.exit(1);
                     }
                     break;
-                case "base-url":
-                    baseUrl = value;
-                    // Ensure it has https:// prefix
-                    if (!baseUrl.startsWith("http://") && !baseUrl.startsWith("https://")) {
-                        baseUrl = "https://" + baseUrl;
+                case "concurrency":
+                    concurrency = parseInt(value);
+                    if (isNaN(concurrency) || concurrency < 1) {
+                        console.error(`Error: --concurrency must be a positive integer`);
+                        Deno.exit(1);
+                    }
+                    break;
+                case "split-after":
+                    splitAfterPages = parseInt(value);
+                    if (isNaN(splitAfterPages) || splitAfterPages < 1) {
+                        console.error(`Error: --split-after must be a positive integer`);
+                        Deno.exit(1);
+                    }
+                    break;
+                case "max-attempts":
+                    retry.maxAttempts = parseInt(value);
+                    if (isNaN(retry.maxAttempts) || retry.maxAttempts < 1) {
+                        console.error(`Error: --max-attempts must be a positive integer`);
+                        Deno.exit(1);
+                    }
+                    break;
+                case "retry-budget": {
+                    const budget = parseInt(value);
+                    if (isNaN(budget) || budget < 0) {
+                        console.error(`Error: --retry-budget must be a non-negative integer`);
+                        Deno.exit(1);
+                    }
+                    retry.budget = budget;
+                    break;
+                }
+                case "checkpoint":
+                    checkpointPath = value;
+                    break;
+                case "format":
+                case "fields":
+                    try {
+                        if (key === "format") {
+                            output.format = parseFormat(value);
+                        } else {
+                            output.fields = parseFields(value);
+                        }
+                    } catch (error) {
+                        console.error(`Error: ${(error as Error).message}`);
+                        Deno.exit(1);
                     }
                     break;
+                case "base-url":
+                    baseUrl = normalizeBaseUrl(value);
+                    break;
                 default:
                     console.error(`Error: Unknown argument ${arg}`);
                     Deno.exit(1);
@@ -372,114 +860,124 @@ if (import.meta.main) {
     }
 
     // Default to last 30 days if no after/before specified
+    const { after: afterArg, before: beforeArg } = options;
     if (!options.after && !options.before) {
         const thirtyDaysAgo = Date.now() - (30 * 24 * 60 * 60 * 1000);
         options.after = thirtyDaysAgo;
     }
 
-    // Add baseUrl to options
+    // Add baseUrl and retry settings to options
     options.baseUrl = baseUrl;
+    options.retry = retry;
+
+    if (checkpointPath && sorted) {
+        console.error(`Error: --checkpoint cannot be combined with --sorted`);
+        Deno.exit(1);
+    }
+
+    // Appending a resumed run only works for line-based output without a header
+    if (checkpointPath && output.format && output.format !== "ndjson") {
+        console.error(`Error: --checkpoint only supports --format ndjson`);
+        Deno.exit(1);
+    }
+
+    // Log parallel fetch progress to stderr so it doesn't interfere with the output
+    const logProgress = (progress: ProgressInfo) => {
+        switch (progress.type) {
+            case "start":
+                console.error(
+                    `Fetching audit logs from ${progress.timeRange?.after} to ${progress.timeRange?.before}...`,
+                );
+                break;
+            case "fetching":
+                console.error(
+                    `[${progress.percentage}%] Retrieved ${progress.totalEntriesFetched?.toLocaleString()} entries...`,
+                );
+                break;
+            case "chunk_complete":
+                console.error(
+                    `[${progress.percentage}%] Retrieved ${progress.totalEntriesFetched?.toLocaleString()} entries (${progress.completedChunks}/${progress.totalChunks} requests complete)`,
+                );
+                break;
+            case "complete":
+                console.error(
+                    `[100%] Complete: ${progress.uniqueEntries?.toLocaleString()} entries retrieved`,
+                );
+                break;
+        }
+    };
 
     try {
         if (sorted) {
-            // Buffer all entries and sort them (not streaming)
-            console.error("Buffering all entries for sorting...");
-            const allEntries: Record<string, unknown>[] = [];
-
-            if (parallelChunks) {
-                for await (
-                    const entry of getAllAuditLogEntriesParallel(API_KEY, {
-                        ...options,
-                        parallelChunks,
-                        onProgress: (progress) => {
-                            switch (progress.type) {
-                                case "start":
-                                    console.error(
-                                        `Fetching audit logs from ${progress.timeRange?.after} to ${progress.timeRange?.before}...`,
-                                    );
-                                    break;
-                                case "fetching":
-                                    console.error(
-                                        `[${progress.percentage}%] Retrieved ${progress.totalEntriesFetched?.toLocaleString()} entries...`,
-                                    );
-                                    break;
-                                case "chunk_complete":
-                                    console.error(
-                                        `[${progress.percentage}%] Retrieved ${progress.totalEntriesFetched?.toLocaleString()} entries (${progress.completedChunks}/${progress.totalChunks} requests complete)`,
-                                    );
-                                    break;
-                                case "complete":
-                                    console.error(
-                                        `[100%] Complete: ${progress.uniqueEntries?.toLocaleString()} entries retrieved`,
-                                    );
-                                    break;
-                            }
-                        },
-                    })
-                ) {
-                    allEntries.push(entry);
+            // Sort through temporary run files so memory stays flat for big ranges
+            const source = parallelChunks
+                ? getAllAuditLogEntriesParallel(API_KEY, {
+                    ...options,
+                    parallelChunks,
+                    concurrency,
+                    splitAfterPages,
+                    onProgress: logProgress,
+                })
+                : getAllAuditLogEntries(API_KEY, options);
+
+            await writeRecords(sortAuditLogEntries(source), output);
+        } else if (checkpointPath) {
+            // Resumable export: progress is saved after every page written to stdout
+            const checkpoint = loadCheckpoint(checkpointPath);
+            if (checkpoint) {
+                if (checkpoint.query !== options.query || checkpoint.spec !== options.spec) {
+                    console.error(
+                        `Error: ${checkpointPath} was created with different --query/--spec options`,
+                    );
+                    Deno.exit(1);
                 }
-            } else {
-                for await (const entry of getAllAuditLogEntries(API_KEY, options)) {
-                    allEntries.push(entry);
+                // Durations are relative to when the export started, so only absolute times can be compared
+                const changedRange = ([["after", afterArg], ["before", beforeArg]] as const).some(
+                    ([name, value]) =>
+                        value !== undefined && !isDuration(value) && toMilliseconds(value) !== checkpoint[name],
+                );
+                if (changedRange) {
+                    const range = `${new Date(checkpoint.after).toISOString()} to ${new Date(checkpoint.before).toISOString()}`;
+                    console.error(`Error: ${checkpointPath} was created for a different time range (${range})`);
+                    Deno.exit(1);
                 }
+                const remaining = checkpoint.chunks.filter((chunk) => chunk.cursor !== null).length;
+                const emitted = checkpoint.chunks.reduce((sum, chunk) => sum + chunk.entriesEmitted, 0);
+                console.error(
+                    `Resuming from ${checkpointPath}: ${emitted.toLocaleString()} entries already written, ${remaining}/${checkpoint.chunks.length} chunks remaining`,
+                );
             }
 
-            // Sort by date (oldest first)
-            console.error(`Sorting ${allEntries.length.toLocaleString()} entries...`);
-            allEntries.sort((a, b) => {
-                const aDate = (a.date as number) || 0;
-                const bDate = (b.date as number) || 0;
-                return aDate - bDate;
-            });
-
-            // Output sorted entries
-            console.error("Outputting sorted entries...");
-            for (const entry of allEntries) {
-                console.log(JSON.stringify(entry, null, 0));
-            }
+            await writeRecords(
+                getAllAuditLogEntriesParallel(API_KEY, {
+                    ...options,
+                    parallelChunks: parallelChunks || 1,
+                    concurrency,
+                    splitAfterPages,
+                    onProgress: logProgress,
+                    checkpoint: checkpoint ?? undefined,
+                    onCheckpoint: (state) => saveCheckpoint(checkpointPath!, state),
+                }),
+                output,
+            );
         } else if (parallelChunks) {
             // Use parallel fetching with progress logging to stderr (streaming)
-            for await (
-                const entry of getAllAuditLogEntriesParallel(API_KEY, {
+            await writeRecords(
+                getAllAuditLogEntriesParallel(API_KEY, {
                     ...options,
                     parallelChunks,
-                    onProgress: (progress) => {
-                        switch (progress.type) {
-                            case "start":
-                                console.error(
-                                    `Fetching audit logs from ${progress.timeRange?.after} to ${progress.timeRange?.before}...`,
-                                );
-                                break;
-                            case "fetching":
-                                console.error(
-                                    `[${progress.percentage}%] Retrieved ${progress.totalEntriesFetched?.toLocaleString()} entries...`,
-                                );
-                                break;
-                            case "chunk_complete":
-                                console.error(
-                                    `[${progress.percentage}%] Retrieved ${progress.totalEntriesFetched?.toLocaleString()} entries (${progress.completedChunks}/${progress.totalChunks} requests complete)`,
-                                );
-                                break;
-                            case "complete":
-                                console.error(
-                                    `[100%] Complete: ${progress.uniqueEntries?.toLocaleString()} entries retrieved`,
-                                );
-                                break;
-                        }
-                    },
-                })
-            ) {
-                console.log(JSON.stringify(entry, null, 0));
-            }
+                    concurrency,
+                    splitAfterPages,
+                    onProgress: logProgress,
+                }),
+                output,
+            );
         } else {
             // Use sequential fetching (default, streaming)
-            for await (const entry of getAllAuditLogEntries(API_KEY, options)) {
-                console.log(JSON.stringify(entry, null, 0));
-            }
+            await writeRecords(getAllAuditLogEntries(API_KEY, options), output);
         }
     } catch (error) {
-        console.error(`Error: ${error.message}`);
+        console.error(`Error: ${(error as Error).message}`);
         Deno.exit(1);
     }
 }
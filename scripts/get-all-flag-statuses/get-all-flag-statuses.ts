@@ -1,71 +1,113 @@
 #!/usr/bin/env -S deno run --allow-net --allow-env
 
-interface APIResponse {
-    items: Record<string, unknown>[];
-    _links: {
-        next?: { href: string };
-    };
+import { getBaseUrlFromEnv, paginate } from "../ld-client/ld-client.ts";
+import type { ClientOptions } from "../ld-client/ld-client.ts";
+import { parseFields, parseFormat, writeRecords } from "../output-format/output-format.ts";
+import type { OutputOptions } from "../output-format/output-format.ts";
+import { parseFlagStatus } from "../flag-model/flag-model.ts";
+import type { FlagStatus } from "../flag-model/flag-model.ts";
+
+export function getAllFlagStatuses(
+    projectKey: string,
+    environmentKey: string,
+    apiKey: string,
+    options?: ClientOptions,
+): AsyncGenerator<Record<string, unknown>> {
+    return paginate(apiKey, `/api/v2/flag-statuses/${projectKey}/${environmentKey}`, options);
+}
+
+/**
+ * Get the flag key from a status's `_links.parent.href`, e.g. `/api/v2/flags/my-project/my-flag`
+ */
+export function extractFlagKeyFromHref(href: string): string | null {
+    const match = href.match(/\/api\/v2\/flags\/[^/]+\/(.+)$/);
+    return match ? match[1] : null;
 }
 
-export async function* getAllFlagStatuses(
+/**
+ * Fetch every flag status of an environment, keyed by flag key, for joining with flags
+ */
+export async function getFlagStatusMap(
     projectKey: string,
     environmentKey: string,
     apiKey: string,
+    options?: ClientOptions,
+): Promise<Map<string, FlagStatus>> {
+    const statuses = new Map<string, FlagStatus>();
+    for await (const status of getAllFlagStatuses(projectKey, environmentKey, apiKey, options)) {
+        const flagStatus = parseFlagStatus(status);
+        const flagKey = extractFlagKeyFromHref(flagStatus._links.parent.href);
+        if (flagKey) {
+            statuses.set(flagKey, flagStatus);
+        }
+    }
+    return statuses;
+}
+
+export function getAllProjects(
+    apiKey: string,
+    options?: ClientOptions,
 ): AsyncGenerator<Record<string, unknown>> {
-    const baseUrl = "https://app.launchdarkly.com/";
-    let nextUrl = `/api/v2/flag-statuses/${projectKey}/${environmentKey}`;
+    return paginate(apiKey, "/api/v2/projects", options);
+}
 
-    while (nextUrl) {
-        const url = new URL(nextUrl, baseUrl);
-        try {
-            const response = await fetch(url, {
-                headers: {
-                    "Authorization": apiKey,
-                    "Content-Type": "application/json",
-                },
-            });
+export function getAllEnvironments(
+    projectKey: string,
+    apiKey: string,
+    options?: ClientOptions,
+): AsyncGenerator<Record<string, unknown>> {
+    return paginate(apiKey, `/api/v2/projects/${projectKey}/environments`, options);
+}
 
-            if (response.status === 429) {
-                // Handle rate limiting
-                const resetTime = response.headers.get("X-RateLimit-Reset");
-                if (resetTime) {
-                    const waitMs = Math.min(
-                        (parseInt(resetTime) * 1000) - Date.now(),
-                        1000,
-                    );
-
-                    await new Promise((resolve) => setTimeout(resolve, waitMs));
-                    continue; // Retry the same URL
-                }
-            }
+export interface FlagStatusScope {
+    projects: string[] | "all";       // Project keys, or "all" to discover every project
+    environments: string[] | "all";   // Environment keys, or "all" for every environment of each project
+    onMissingEnvironment?: (projectKey: string, environmentKey: string) => void;
+}
 
-            if (!response.ok) {
-                if (response.status >= 500 || response.status === 429) {
-                    // Retry after a short delay for server errors and rate limits
-                    await new Promise((resolve) => setTimeout(resolve, 1000));
-                    continue;
-                }
-                throw new Error(
-                    `API request failed: ${response.status} ${response.statusText}`,
-                );
-            }
+/**
+ * Fetch flag statuses across several projects and environments.
+ *
+ * Each status is annotated with the `projectKey` and `environmentKey` it
+ * belongs to. Requested environments that don't exist in a project are
+ * skipped and reported through `onMissingEnvironment`.
+ */
+export async function* getFlagStatusesForScope(
+    apiKey: string,
+    scope: FlagStatusScope,
+    options?: ClientOptions,
+): AsyncGenerator<Record<string, unknown>> {
+    let projectKeys: string[];
+    if (scope.projects === "all") {
+        projectKeys = [];
+        for await (const project of getAllProjects(apiKey, options)) {
+            projectKeys.push(project.key as string);
+        }
+    } else {
+        projectKeys = scope.projects;
+    }
 
-            const data: APIResponse = await response.json();
+    for (const projectKey of projectKeys) {
+        const available: string[] = [];
+        for await (const environment of getAllEnvironments(projectKey, apiKey, options)) {
+            available.push(environment.key as string);
+        }
 
-            // Yield each flag status
-            for (const flagStatus of data.items) {
-                yield flagStatus;
-            }
+        let environmentKeys = available;
+        if (scope.environments !== "all") {
+            environmentKeys = scope.environments.filter((environmentKey) => {
+                if (available.includes(environmentKey)) {
+                    return true;
+                }
+                scope.onMissingEnvironment?.(projectKey, environmentKey);
+                return false;
+            });
+        }
 
-            // Get next page URL if it exists
-            nextUrl = data._links?.next?.href || "";
-        } catch (error) {
-            if (error instanceof TypeError && error.message.includes("fetch")) {
-                // Network error, retry after a delay
-                await new Promise((resolve) => setTimeout(resolve, 1000));
-                continue;
+        for (const environmentKey of environmentKeys) {
+            for await (const status of getAllFlagStatuses(projectKey, environmentKey, apiKey, options)) {
+                yield { ...status, projectKey, environmentKey };
             }
-            throw error;
         }
     }
 }
@@ -80,22 +122,96 @@ if (import.meta.main) {
         Deno.exit(1);
     }
 
-    const projectKey = Deno.args[0];
-    if (!projectKey) {
-        console.error("Error: Project key argument is required");
-        console.error("Usage: get-all-flag-statuses.ts <project-key> <environment-key>");
+    const usage = "Usage: get-all-flag-statuses.ts <project-key> <environment-key> [--format <format>] [--fields <fields>]\n" +
+        "       get-all-flag-statuses.ts (--project <keys> | --all-projects) (--env <keys> | --all-envs) [--format <format>] [--fields <fields>]";
+
+    const positional: string[] = [];
+    let projects: string[] | "all" | undefined;
+    let environments: string[] | "all" | undefined;
+    const output: OutputOptions = {};
+    const splitKeys = (value: string) => value.split(",").map((key) => key.trim()).filter((key) => key);
+
+    for (let i = 0; i < Deno.args.length; i++) {
+        const arg = Deno.args[i];
+        if (!arg.startsWith("--")) {
+            positional.push(arg);
+            continue;
+        }
+
+        // Flags without values
+        if (arg === "--all-projects") {
+            projects = "all";
+            continue;
+        }
+        if (arg === "--all-envs") {
+            environments = "all";
+            continue;
+        }
+
+        const value = Deno.args[i + 1];
+        try {
+            if (!value || value.startsWith("--")) {
+                throw new Error(`Missing value for ${arg}`);
+            }
+            switch (arg) {
+                case "--project":
+                    projects = splitKeys(value);
+                    break;
+                case "--env":
+                    environments = splitKeys(value);
+                    break;
+                case "--format":
+                    output.format = parseFormat(value);
+                    break;
+                case "--fields":
+                    output.fields = parseFields(value);
+                    break;
+                default:
+                    throw new Error(`Unknown argument ${arg}`);
+            }
+        } catch (error) {
+            console.error(`Error: ${(error as Error).message}`);
+            Deno.exit(1);
+        }
+        i++; // Skip the value in the next iteration
+    }
+
+    const baseUrl = getBaseUrlFromEnv();
+    const scoped = projects !== undefined || environments !== undefined;
+
+    // Positional keys are shorthand for --project and --env
+    projects ??= positional[0] ? [positional[0]] : undefined;
+    environments ??= positional[1] ? [positional[1]] : undefined;
+
+    if (!projects) {
+        console.error("Error: Project key argument, --project or --all-projects is required");
+        console.error(usage);
         Deno.exit(1);
     }
 
-    const environmentKey = Deno.args[1];
-    if (!environmentKey) {
-        console.error("Error: Environment key argument is required");
-        console.error("Usage: get-all-flag-statuses.ts <project-key> <environment-key>");
+    if (!environments) {
+        console.error("Error: Environment key argument, --env or --all-envs is required");
+        console.error(usage);
         Deno.exit(1);
     }
 
-    for await (const flagStatus of getAllFlagStatuses(projectKey, environmentKey, API_KEY)) {
-        console.log(JSON.stringify(flagStatus, null, 0));
+    try {
+        // Without scope options, keep the original single-environment output: plain statuses,
+        // and an API error rather than a warning for an unknown project or environment
+        const statuses = scoped
+            ? getFlagStatusesForScope(API_KEY, {
+                projects,
+                environments,
+                onMissingEnvironment: (projectKey, environmentKey) => {
+                    console.error(`Skipping ${projectKey}/${environmentKey}: environment not found`);
+                },
+            }, {
+                baseUrl,
+            })
+            : getAllFlagStatuses(positional[0], positional[1], API_KEY, { baseUrl });
+        await writeRecords(statuses, output);
+    } catch (error) {
+        console.error(`Error: ${(error as Error).message}`);
+        Deno.exit(1);
     }
 }
-
@@ -1,81 +1,68 @@
 #!/usr/bin/env -S deno run --allow-net --allow-env
 
-interface APIResponse {
-    items: Record<string, unknown>[];
-    _links: {
-        next?: { href: string };
-    };
-}
+import { getBaseUrlFromEnv, paginate } from "../ld-client/ld-client.ts";
+import type { ClientOptions } from "../ld-client/ld-client.ts";
+import { parseFields, parseFormat, readNdjson, writeRecords } from "../output-format/output-format.ts";
+import type { OutputOptions } from "../output-format/output-format.ts";
+import { getFlagStatusMap } from "../get-all-flag-statuses/get-all-flag-statuses.ts";
+import { parseFlag } from "../flag-model/flag-model.ts";
+import type { Flag } from "../flag-model/flag-model.ts";
 
-export async function* getAllFlags(
+export function getAllFlags(
     projectKey: string,
     apiKey: string,
     parameters?: URLSearchParams,
+    options?: ClientOptions,
 ): AsyncGenerator<Record<string, unknown>> {
-    const baseUrl = "https://app.launchdarkly.com/";
-    let nextUrl : URL | null = new URL(`/api/v2/flags/${projectKey}`, baseUrl);
-    if (parameters) {
-        parameters.forEach((value, key) => {
-            nextUrl!.searchParams.set(key, value);
-        });
-    }
-
-
-    while (nextUrl) {
-        const url = new URL(nextUrl, baseUrl);
-        try {
-            const response = await fetch(url, {
-                headers: {
-                    "Authorization": apiKey,
-                    "Content-Type": "application/json",
-                },
-            });
-
-            if (response.status === 429) {
-                // Handle rate limiting
-                const resetTime = response.headers.get("X-RateLimit-Reset");
-                if (resetTime) {
-                    const waitMs = Math.min(
-                        (parseInt(resetTime) * 1000) - Date.now(),
-                        1000,
-                    );
-
-                    await new Promise((resolve) => setTimeout(resolve, waitMs));
-                    continue; // Retry the same URL
-                }
-            }
-
-            if (!response.ok) {
-                if (response.status >= 500 || response.status === 429) {
-                    // Retry after a short delay for server errors and rate limits
-                    await new Promise((resolve) => setTimeout(resolve, 1000));
-                    continue;
-                }
-                throw new Error(
-                    `API request failed: ${response.status} ${response.statusText}`,
-                );
-            }
+    return paginate(apiKey, `/api/v2/flags/${projectKey}`, {
+        ...options,
+        parameters,
+    });
+}
 
-            const data: APIResponse = await response.json();
+export interface FlagStatusSummary {
+    environmentKey: string;
+    name: string | null;            // e.g. "active", "inactive", "launched", "new"
+    lastRequested: string | number | null;
+    default: unknown;               // Fallback value last reported by SDKs
+}
 
-            // Yield each flag
-            for (const flag of data.items) {
-                yield flag;
-            }
+/**
+ * Fetch all flags with their status in one environment merged in as `status`.
+ *
+ * Statuses are fetched first and joined on flag key; flags without a status
+ * get `status: null`.
+ */
+export async function* getAllFlagsWithStatus(
+    projectKey: string,
+    environmentKey: string,
+    apiKey: string,
+    parameters?: URLSearchParams,
+    options?: ClientOptions,
+): AsyncGenerator<Record<string, unknown>> {
+    const statuses = await getFlagStatusMap(projectKey, environmentKey, apiKey, options);
 
-            // Get next page URL if it exists
-            nextUrl = data._links?.next?.href ? new URL(data._links.next.href, baseUrl) : null;
-        } catch (error) {
-            if (error instanceof TypeError && error.message.includes("fetch")) {
-                // Network error, retry after a delay
-                await new Promise((resolve) => setTimeout(resolve, 1000));
-                continue;
+    for await (const flag of getAllFlags(projectKey, apiKey, parameters, options)) {
+        const status = statuses.get(flag.key as string);
+        const summary: FlagStatusSummary | null = status
+            ? {
+                environmentKey,
+                name: status.name ?? null,
+                lastRequested: status.lastRequested ?? null,
+                default: status.default ?? null,
             }
-            throw error;
-        }
+            : null;
+        yield { ...flag, status: summary };
     }
 }
 
+/**
+ * Read flags back from an NDJSON export of this script, validating each one
+ */
+export function readFlagSnapshot(filePath: string): AsyncGenerator<Flag> {
+    return readNdjson(filePath, { parse: parseFlag });
+}
+
 // Main execution
 if (import.meta.main) {
     const API_KEY = Deno.env.get("LD_API_KEY");
@@ -89,14 +76,39 @@ if (import.meta.main) {
     const projectKey = Deno.args[0];
     if (!projectKey) {
         console.error("Error: Project key argument is required");
-        console.error("Usage: get-all-flags.ts <project-key> [--<parameter> <value>]");
+        console.error("Usage: get-all-flags.ts <project-key> [--with-status <env>] [--format <format>] [--fields <fields>] [--<parameter> <value>]");
         Deno.exit(1);
     }
     // for each of the other arguments like --expand, set a URLSearchParams object
     const parameters = new URLSearchParams();
+    const output: OutputOptions = {};
+    let statusEnvironment: string | undefined;
     for (let i = 1; i < Deno.args.length; i++) {
         if (Deno.args[i].startsWith("--")) {
             const key = Deno.args[i].slice(2);
+
+            // --with-status, --format and --fields control the output rather than the API request
+            if (key === "with-status" || key === "format" || key === "fields") {
+                const value = Deno.args[i + 1];
+                try {
+                    if (!value || value.startsWith("--")) {
+                        throw new Error(`Missing value for --${key}`);
+                    }
+                    if (key === "with-status") {
+                        statusEnvironment = value;
+                    } else if (key === "format") {
+                        output.format = parseFormat(value);
+                    } else {
+                        output.fields = parseFields(value);
+                    }
+                } catch (error) {
+                    console.error(`Error: ${(error as Error).message}`);
+                    Deno.exit(1);
+                }
+                i++;
+                continue;
+            }
+
             for (let j = i + 1; j < Deno.args.length; j++) {
                 if (!Deno.args[j].startsWith("--")) {
                     parameters.append(key, Deno.args[j]);
@@ -108,8 +120,10 @@ if (import.meta.main) {
         }
     }
 
-    for await (const flag of getAllFlags(projectKey, API_KEY, parameters)) {
-        console.log(JSON.stringify(flag, null, 0));
-    }
+    const options = { baseUrl: getBaseUrlFromEnv() };
+    const flags = statusEnvironment
+        ? getAllFlagsWithStatus(projectKey, statusEnvironment, API_KEY, parameters, options)
+        : getAllFlags(projectKey, API_KEY, parameters, options);
+    await writeRecords(flags, output);
 
 }
@@ -0,0 +1,364 @@
+/**
+ * Shared LaunchDarkly REST API client used by the scripts in this repository.
+ *
+ * Every script goes through `ldFetch` (or one of the helpers built on it) so
+ * rate limiting, retries, base URL handling and API versioning behave the
+ * same way everywhere.
+ */
+
+export const DEFAULT_BASE_URL = "https://app.launchdarkly.com";
+
+// Upper bound for a single rate-limit wait, so a bogus reset header can't stall a run
+const MAX_RATE_LIMIT_WAIT_MS = 60_000;
+
+export interface RetryBudget {
+    remaining: number; // Retries left across every request that shares this budget
+}
+
+export interface RetryOptions {
+    maxAttempts?: number; // Attempts per request, including the first (default: 6)
+    baseDelayMs?: number; // Backoff before the first retry, doubled on each retry (default: 500)
+    maxDelayMs?: number; // Cap for a single backoff delay (default: 30000)
+    budget?: RetryBudget | number; // Total retries allowed for the whole run (default: unlimited)
+}
+
+export interface ClientOptions {
+    baseUrl?: string;
+    apiVersion?: string; // Sent as LD-API-Version, e.g. "beta" or "20240415"
+    retry?: RetryOptions;
+}
+
+export interface RequestOptions extends ClientOptions {
+    method?: string;
+    body?: unknown;
+    contentType?: string;
+    headers?: Record<string, string>;
+    signal?: AbortSignal; // Aborts the request, including any backoff wait between retries
+    // "rate-limit" retries only 429s, for requests that aren't safe to send twice
+    // (a 5xx or dropped connection may come after the server applied them). Default: "all"
+    retryOn?: "all" | "rate-limit";
+}
+
+interface PaginatedResponse<T> {
+    items: T[];
+    totalCount?: number;
+    _links?: {
+        next?: { href: string };
+    };
+}
+
+/**
+ * Error thrown when the API returns a non-retryable status, or when retries are exhausted
+ */
+export class LaunchDarklyApiError extends Error {
+    constructor(
+        message: string,
+        public readonly url: string,
+        public readonly status?: number,
+        public readonly body?: string,
+    ) {
+        super(message);
+        this.name = "LaunchDarklyApiError";
+    }
+}
+
+/**
+ * Read the API key from LAUNCHDARKLY_API_KEY or LD_API_KEY
+ */
+export function getApiKeyFromEnv(): string | undefined {
+    return Deno.env.get("LAUNCHDARKLY_API_KEY") || Deno.env.get("LD_API_KEY");
+}
+
+/**
+ * Read the base URL from the environment variables used across the scripts
+ */
+export function getBaseUrlFromEnv(): string {
+    return normalizeBaseUrl(
+        Deno.env.get("LD_BASE_URL") ||
+            Deno.env.get("LAUNCHDARKLY_BASE_URL") ||
+            Deno.env.get("LAUNCHDARKLY_BASE_URI") ||
+            Deno.env.get("LD_API_ENDPOINT") ||
+            DEFAULT_BASE_URL,
+    );
+}
+
+/**
+ * Ensure a base URL has a scheme and no trailing slash
+ */
+export function normalizeBaseUrl(baseUrl: string): string {
+    let url = baseUrl.trim();
+    if (!url.startsWith("http://") && !url.startsWith("https://")) {
+        url = "https://" + url;
+    }
+    return url.replace(/\/+$/, "");
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+        if (signal?.aborted) {
+            reject(signal.reason);
+            return;
+        }
+        const onAbort = () => {
+            clearTimeout(timer);
+            reject(signal!.reason);
+        };
+        const timer = setTimeout(() => {
+            signal?.removeEventListener("abort", onAbort);
+            resolve();
+        }, ms);
+        signal?.addEventListener("abort", onAbort, { once: true });
+    });
+}
+
+/**
+ * Work out how long to wait before retrying a rate-limited response.
+ *
+ * `Retry-After` is in seconds. `X-RateLimit-Reset` is documented as epoch
+ * milliseconds, but epoch seconds are accepted too since some scripts used to
+ * treat it that way.
+ */
+export function getRateLimitDelay(response: Response, fallbackMs = 1000): number {
+    const retryAfter = response.headers.get("Retry-After");
+    if (retryAfter) {
+        const seconds = Number(retryAfter);
+        if (!isNaN(seconds)) {
+            return Math.min(Math.max(seconds * 1000, 0), MAX_RATE_LIMIT_WAIT_MS);
+        }
+        const retryDate = Date.parse(retryAfter);
+        if (!isNaN(retryDate)) {
+            return Math.min(Math.max(retryDate - Date.now(), 0), MAX_RATE_LIMIT_WAIT_MS);
+        }
+    }
+
+    const reset = response.headers.get("X-RateLimit-Reset");
+    if (reset) {
+        let resetMs = Number(reset);
+        if (!isNaN(resetMs)) {
+            // Anything below ~2001-09-09 in milliseconds must be epoch seconds
+            if (resetMs < 1e12) {
+                resetMs *= 1000;
+            }
+            return Math.min(Math.max(resetMs - Date.now(), 0), MAX_RATE_LIMIT_WAIT_MS);
+        }
+    }
+
+    return fallbackMs;
+}
+
+/**
+ * Create a retry budget that can be shared between requests, e.g. across parallel chunks
+ */
+export function createRetryBudget(totalRetries: number): RetryBudget {
+    return { remaining: totalRetries };
+}
+
+/**
+ * Resolve retry options so every request of a run draws from the same budget object
+ */
+export function withRetryBudget(retry?: RetryOptions): RetryOptions | undefined {
+    if (typeof retry?.budget === "number") {
+        return { ...retry, budget: createRetryBudget(retry.budget) };
+    }
+    return retry;
+}
+
+/**
+ * Exponential backoff with equal jitter: half the delay is fixed, half is random
+ */
+export function getBackoffDelay(attempt: number, retry?: RetryOptions): number {
+    const baseDelayMs = retry?.baseDelayMs ?? 500;
+    const maxDelayMs = retry?.maxDelayMs ?? 30_000;
+    const delay = Math.min(baseDelayMs * 2 ** (attempt - 1), maxDelayMs);
+    return delay / 2 + Math.random() * (delay / 2);
+}
+
+function isNetworkError(error: unknown): boolean {
+    return error instanceof TypeError && error.message.includes("fetch");
+}
+
+/**
+ * Build an absolute API URL from a path (or next link) and optional query parameters
+ */
+export function buildUrl(
+    path: string | URL,
+    baseUrl = DEFAULT_BASE_URL,
+    parameters?: URLSearchParams,
+): URL {
+    const url = new URL(path, normalizeBaseUrl(baseUrl) + "/");
+    if (parameters) {
+        parameters.forEach((value, key) => {
+            url.searchParams.set(key, value);
+        });
+    }
+    return url;
+}
+
+/**
+ * Fetch a LaunchDarkly API URL, retrying rate limits, server errors and network errors.
+ *
+ * Resolves with the response for any 2xx status. Other 4xx statuses throw
+ * immediately; retryable failures throw once `maxAttempts` or the retry budget
+ * is used up, with the URL and last status in the error message. With
+ * `retryOn: "rate-limit"`, server and network errors throw immediately too.
+ */
+export async function ldFetch(
+    apiKey: string,
+    path: string | URL,
+    options: RequestOptions = {},
+): Promise<Response> {
+    const url = buildUrl(path, options.baseUrl);
+    const retry = withRetryBudget(options.retry);
+    const budget = retry?.budget as RetryBudget | undefined;
+    const maxAttempts = retry?.maxAttempts ?? 6;
+    const rateLimitOnly = options.retryOn === "rate-limit";
+
+    const headers: Record<string, string> = {
+        "Authorization": apiKey,
+        "Content-Type": options.contentType || "application/json",
+        ...options.headers,
+    };
+    if (options.apiVersion) {
+        headers["LD-API-Version"] = options.apiVersion;
+    }
+
+    const body = options.body === undefined
+        ? undefined
+        : typeof options.body === "string"
+        ? options.body
+        : JSON.stringify(options.body);
+
+    let attempt = 0;
+    while (true) {
+        attempt++;
+        let lastStatus: string;
+        let lastStatusCode: number | undefined;
+        let waitMs: number;
+
+        try {
+            const response = await fetch(url, {
+                method: options.method || "GET",
+                headers,
+                body,
+                signal: options.signal,
+            });
+
+            if (response.ok) {
+                return response;
+            }
+
+            if (response.status !== 429 && (response.status < 500 || rateLimitOnly)) {
+                const errorBody = await response.text().catch(() => "");
+                const note = response.status >= 500 ? " (the request may still have been applied)" : "";
+                throw new LaunchDarklyApiError(
+                    `API request failed: ${response.status} ${response.statusText}${note}\nURL: ${url}\nResponse: ${errorBody}`,
+                    url.toString(),
+                    response.status,
+                    errorBody,
+                );
+            }
+
+            lastStatus = `${response.status} ${response.statusText}`;
+            lastStatusCode = response.status;
+            waitMs = response.status === 429
+                ? getRateLimitDelay(response, getBackoffDelay(attempt, retry))
+                : getBackoffDelay(attempt, retry);
+            await response.body?.cancel();
+        } catch (error) {
+            if (!isNetworkError(error)) {
+                throw error;
+            }
+            if (rateLimitOnly) {
+                throw new LaunchDarklyApiError(
+                    `API request failed: network error (${(error as Error).message}) ` +
+                        `(the request may still have been applied)\nURL: ${url}`,
+                    url.toString(),
+                );
+            }
+            lastStatus = `network error (${(error as Error).message})`;
+            waitMs = getBackoffDelay(attempt, retry);
+        }
+
+        if (attempt >= maxAttempts) {
+            throw new LaunchDarklyApiError(
+                `API request failed after ${attempt} attempts: ${lastStatus}\nURL: ${url}`,
+                url.toString(),
+                lastStatusCode,
+            );
+        }
+        if (budget && budget.remaining <= 0) {
+            throw new LaunchDarklyApiError(
+                `API request failed, retry budget exhausted: ${lastStatus}\nURL: ${url}`,
+                url.toString(),
+                lastStatusCode,
+            );
+        }
+        if (budget) {
+            budget.remaining--;
+        }
+
+        await sleep(waitMs, options.signal);
+    }
+}
+
+/**
+ * Fetch a URL and parse the JSON response body
+ */
+export async function getJson<T>(
+    apiKey: string,
+    path: string | URL,
+    options: RequestOptions = {},
+): Promise<T> {
+    const response = await ldFetch(apiKey, path, options);
+    return await response.json() as T;
+}
+
+export interface Page<T> {
+    url: string; // URL this page was fetched from
+    items: T[];
+    nextUrl: string | null; // `_links.next` resolved against the base URL, or null on the last page
+}
+
+/**
+ * Iterate over the pages of a paginated collection by following `_links.next`.
+ *
+ * Useful when the caller needs the page URLs, e.g. to checkpoint and resume an export.
+ */
+export async function* paginatePages<T = Record<string, unknown>>(
+    apiKey: string,
+    path: string | URL,
+    options: RequestOptions & { parameters?: URLSearchParams } = {},
+): AsyncGenerator<Page<T>> {
+    let nextUrl: URL | null = buildUrl(path, options.baseUrl, options.parameters);
+    // Every page of this run shares one retry budget
+    const requestOptions = { ...options, retry: withRetryBudget(options.retry) };
+
+    while (nextUrl) {
+        const data: PaginatedResponse<T> = await getJson<PaginatedResponse<T>>(
+            apiKey,
+            nextUrl,
+            requestOptions,
+        );
+        const url: URL = nextUrl;
+        nextUrl = data._links?.next?.href ? buildUrl(data._links.next.href, options.baseUrl) : null;
+
+        yield {
+            url: url.toString(),
+            items: data.items || [],
+            nextUrl: nextUrl ? nextUrl.toString() : null,
+        };
+    }
+}
+
+/**
+ * Iterate over every item of a paginated collection by following `_links.next`
+ */
+export async function* paginate<T = Record<string, unknown>>(
+    apiKey: string,
+    path: string | URL,
+    options: RequestOptions & { parameters?: URLSearchParams } = {},
+): AsyncGenerator<T> {
+    for await (const page of paginatePages<T>(apiKey, path, options)) {
+        yield* page.items;
+    }
+}
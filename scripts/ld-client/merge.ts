@@ -0,0 +1,98 @@
+/**
+ * Merge the output of concurrent producers (e.g. the chunks of a parallel
+ * export) into a single async generator.
+ *
+ * Producers hand items over through a bounded buffer: `push` only resolves
+ * once there is room, so a slow consumer pauses the producers instead of
+ * letting memory grow. The first producer error is thrown to the consumer
+ * straight away, and the shared abort signal is fired so the remaining
+ * producers stop. The signal also fires when the consumer stops iterating early.
+ */
+
+export interface Push<T> {
+    (item: T): Promise<void>;
+}
+
+export interface Producer<T> {
+    (push: Push<T>, signal: AbortSignal): Promise<void>;
+}
+
+export interface MergeOptions {
+    bufferSize?: number; // Items buffered before producers are paused (default: 1000)
+}
+
+export async function* mergeProducers<T>(
+    producers: Producer<T>[],
+    options: MergeOptions = {},
+): AsyncGenerator<T> {
+    const bufferSize = Math.max(1, options.bufferSize ?? 1000);
+    const controller = new AbortController();
+    const signal = controller.signal;
+
+    const buffer: T[] = [];
+    let running = producers.length;
+    let failure: { error: unknown } | null = null;
+
+    // Producers waiting for room in the buffer, and the consumer waiting for an item
+    let spaceWaiters: Array<() => void> = [];
+    let itemWaiter: (() => void) | null = null;
+
+    const wakeConsumer = () => {
+        const waiter = itemWaiter;
+        itemWaiter = null;
+        waiter?.();
+    };
+    const wakeProducers = () => {
+        const waiters = spaceWaiters;
+        spaceWaiters = [];
+        waiters.forEach((waiter) => waiter());
+    };
+    signal.addEventListener("abort", wakeProducers, { once: true });
+
+    const push: Push<T> = async (item) => {
+        while (buffer.length >= bufferSize && !signal.aborted) {
+            await new Promise<void>((resolve) => spaceWaiters.push(resolve));
+        }
+        signal.throwIfAborted();
+        buffer.push(item);
+        wakeConsumer();
+    };
+
+    for (const producer of producers) {
+        producer(push, signal)
+            .catch((error) => {
+                // Errors caused by aborting the other producers are expected, only keep the first
+                if (!signal.aborted) {
+                    failure = { error };
+                    controller.abort(error);
+                }
+            })
+            .finally(() => {
+                running--;
+                wakeConsumer();
+            });
+    }
+
+    try {
+        while (true) {
+            if (failure) {
+                throw (failure as { error: unknown }).error;
+            }
+
+            if (buffer.length > 0) {
+                const item = buffer.shift()!;
+                wakeProducers();
+                yield item;
+            } else if (running === 0) {
+                return;
+            } else {
+                await new Promise<void>((resolve) => itemWaiter = resolve);
+            }
+        }
+    } finally {
+        // Stop any producers still running, e.g. when the consumer breaks out early
+        if (!signal.aborted) {
+            controller.abort();
+        }
+    }
+}
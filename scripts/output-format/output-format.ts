@@ -0,0 +1,237 @@
+/**
+ * Output formats shared by the export scripts.
+ *
+ * Records can be written as NDJSON (the default), a JSON array, CSV or TSV,
+ * optionally projected onto a list of dotted field paths such as
+ * `member.email` or `_links.parent.href`.
+ */
+
+export type OutputFormat = "ndjson" | "json" | "csv" | "tsv";
+
+export const OUTPUT_FORMATS: OutputFormat[] = ["ndjson", "json", "csv", "tsv"];
+
+export interface OutputOptions {
+    format?: OutputFormat;   // Default: ndjson
+    fields?: string[];       // Dotted paths to output, in order (default: the whole record)
+}
+
+/**
+ * Validate a `--format` value
+ */
+export function parseFormat(value: string): OutputFormat {
+    if (!OUTPUT_FORMATS.includes(value as OutputFormat)) {
+        throw new Error(`--format must be one of: ${OUTPUT_FORMATS.join(", ")}`);
+    }
+    return value as OutputFormat;
+}
+
+/**
+ * Split a `--fields` value like `key,member.email` into field paths
+ */
+export function parseFields(value: string): string[] {
+    const fields = value.split(",").map((field) => field.trim()).filter((field) => field);
+    if (fields.length === 0) {
+        throw new Error(`--fields must list at least one field`);
+    }
+    return fields;
+}
+
+/**
+ * Look up a dotted path such as `_links.parent.href` or `variations.0.value`
+ */
+export function getField(record: unknown, path: string): unknown {
+    let value = record;
+    for (const part of path.split(".")) {
+        if (value === null || typeof value !== "object") {
+            return undefined;
+        }
+        value = (value as Record<string, unknown>)[part];
+    }
+    return value;
+}
+
+/**
+ * Flatten nested objects into dotted keys. Arrays are kept as single values.
+ */
+export function flattenRecord(record: Record<string, unknown>, prefix = ""): Record<string, unknown> {
+    const flat: Record<string, unknown> = {};
+    for (const [key, value] of Object.entries(record)) {
+        const path = prefix ? `${prefix}.${key}` : key;
+        if (value !== null && typeof value === "object" && !Array.isArray(value) && Object.keys(value).length > 0) {
+            Object.assign(flat, flattenRecord(value as Record<string, unknown>, path));
+        } else {
+            flat[path] = value;
+        }
+    }
+    return flat;
+}
+
+/**
+ * Pick the given fields into a flat record keyed by path, with null for missing fields
+ * so every record has the same schema
+ */
+export function projectRecord(record: Record<string, unknown>, fields: string[]): Record<string, unknown> {
+    const projected: Record<string, unknown> = {};
+    for (const field of fields) {
+        projected[field] = getField(record, field) ?? null;
+    }
+    return projected;
+}
+
+function toCell(value: unknown): string {
+    if (value === null || value === undefined) {
+        return "";
+    }
+    return typeof value === "object" ? JSON.stringify(value) : String(value);
+}
+
+function escapeCsv(value: string): string {
+    return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+function escapeTsv(value: string): string {
+    return value.replace(/\\/g, "\\\\").replace(/\t/g, "\\t").replace(/\r/g, "\\r").replace(/\n/g, "\\n");
+}
+
+/**
+ * Turn records into output lines for the given format.
+ *
+ * CSV and TSV columns are the `fields` if given, otherwise the flattened keys
+ * of the first record; pass `fields` when records don't all share a shape.
+ */
+export async function* formatRecords(
+    records: AsyncIterable<Record<string, unknown>>,
+    options: OutputOptions = {},
+): AsyncGenerator<string> {
+    const format = options.format ?? "ndjson";
+    const fields = options.fields;
+
+    if (format === "ndjson" || format === "json") {
+        let previous: string | undefined;
+        if (format === "json") {
+            yield "[";
+        }
+        for await (const record of records) {
+            const line = JSON.stringify(fields ? projectRecord(record, fields) : record, null, 0);
+            if (format === "ndjson") {
+                yield line;
+                continue;
+            }
+            // Hold each element back until we know whether it needs a trailing comma
+            if (previous !== undefined) {
+                yield `  ${previous},`;
+            }
+            previous = line;
+        }
+        if (format === "json") {
+            if (previous !== undefined) {
+                yield `  ${previous}`;
+            }
+            yield "]";
+        }
+        return;
+    }
+
+    const escape = format === "csv" ? escapeCsv : escapeTsv;
+    const delimiter = format === "csv" ? "," : "\t";
+    const toRow = (cells: string[]) => cells.map(escape).join(delimiter);
+
+    if (fields) {
+        yield toRow(fields);
+        for await (const record of records) {
+            yield toRow(fields.map((field) => toCell(getField(record, field))));
+        }
+        return;
+    }
+
+    let columns: string[] | undefined;
+    for await (const record of records) {
+        const flat = flattenRecord(record);
+        if (!columns) {
+            columns = Object.keys(flat);
+            yield toRow(columns);
+        }
+        yield toRow(columns.map((column) => toCell(flat[column])));
+    }
+}
+
+/**
+ * Write records to stdout in the given format
+ */
+export async function writeRecords(
+    records: AsyncIterable<Record<string, unknown>>,
+    options: OutputOptions = {},
+): Promise<void> {
+    for await (const line of formatRecords(records, options)) {
+        console.log(line);
+    }
+}
+
+export interface ReadNdjsonOptions<T> {
+    parse?: (value: unknown) => T;              // Validate or convert each parsed line (default: as is)
+    onInvalidLine?: (message: string) => void;  // Report and skip bad lines instead of throwing
+}
+
+/**
+ * Read an NDJSON file one record at a time, such as an export of these scripts.
+ *
+ * Blank lines are ignored. A line that isn't valid JSON, or that `parse`
+ * rejects, throws an error naming the file and line, unless `onInvalidLine` is
+ * given. An unterminated last line that doesn't parse is what an interrupted
+ * write leaves behind, so it is skipped with a warning on stderr instead.
+ */
+export async function* readNdjson<T = Record<string, unknown>>(
+    filePath: string,
+    options: ReadNdjsonOptions<T> = {},
+): AsyncGenerator<T> {
+    const file = await Deno.open(filePath, { read: true });
+    const decoder = new TextDecoder();
+    const parse = options.parse ?? ((value: unknown) => value as T);
+    let buffer = "";
+    let lineNumber = 0;
+
+    const parseLine = (line: string): { record: T } | { error: string } => {
+        try {
+            return { record: parse(JSON.parse(line)) };
+        } catch (error) {
+            return { error: `${filePath}:${lineNumber}: ${(error as Error).message}` };
+        }
+    };
+
+    try {
+        for await (const chunk of file.readable) {
+            buffer += decoder.decode(chunk, { stream: true });
+            const lines = buffer.split("\n");
+            buffer = lines.pop()!;
+
+            for (const line of lines) {
+                lineNumber++;
+                if (!line.trim()) continue;
+                const result = parseLine(line);
+                if ("record" in result) {
+                    yield result.record;
+                } else if (options.onInvalidLine) {
+                    options.onInvalidLine(result.error);
+                } else {
+                    throw new Error(result.error);
+                }
+            }
+        }
+
+        lineNumber++;
+        if (buffer.trim()) {
+            const result = parseLine(buffer);
+            if ("record" in result) {
+                yield result.record;
+            } else {
+                console.error(`Warning: Skipping incomplete last line at ${result.error}`);
+            }
+        }
+    } finally {
+        try {
+            file.close();
+        } catch {
+            // Already closed once the stream was read to the end
+        }
+    }
+}
@@ -0,0 +1,526 @@
+#!/usr/bin/env -S deno run --allow-read
+
+import { readFlagSnapshot } from "../get-all-flags/get-all-flags.ts";
+import type { Flag } from "../flag-model/flag-model.ts";
+
+export interface PrerequisiteEdge {
+    flagKey: string;                    // The dependent flag
+    prerequisiteKey: string;            // The flag it requires
+    environment: string;
+    variation: number;                  // Variation the prerequisite must serve
+}
+
+export interface PrerequisiteGraph {
+    flags: Map<string, Flag>;
+    edges: PrerequisiteEdge[];          // One per flag, prerequisite and environment
+}
+
+export type IssueKind = "archived-prerequisite" | "off-prerequisite" | "missing-prerequisite";
+
+export interface PrerequisiteIssue {
+    kind: IssueKind;
+    flagKey: string;
+    prerequisiteKey: string;
+    environment: string;
+    description: string;
+}
+
+export interface FlagDegree {
+    key: string;
+    count: number;
+}
+
+export interface GraphReport {
+    flags: number;                      // Flags with prerequisites or dependents
+    dependencies: number;               // Distinct flag → prerequisite pairs, across environments
+    environments: string[];
+    fanIn: FlagDegree[];                // Flags by number of flags depending on them, most first
+    fanOut: FlagDegree[];               // Flags by number of prerequisites, most first
+    chains: string[][];                 // Longest chains, dependent first: [a, b, c] means a requires b requires c
+    cycles: string[][];
+    issues: PrerequisiteIssue[];
+}
+
+export type GraphFormat = "report" | "json" | "dot" | "mermaid";
+
+export interface BuildGraphOptions {
+    environments?: string[];            // Default: every environment
+}
+
+/**
+ * Build the prerequisite graph of a set of flags
+ */
+export function buildGraph(flags: Iterable<Flag>, options: BuildGraphOptions = {}): PrerequisiteGraph {
+    const graph: PrerequisiteGraph = { flags: new Map(), edges: [] };
+    for (const flag of flags) {
+        graph.flags.set(flag.key, flag);
+        for (const [environment, config] of Object.entries(flag.environments)) {
+            if (options.environments && !options.environments.includes(environment)) continue;
+            if (!config.prerequisites && config._summary) {
+                throw new Error(
+                    `Flag ${flag.key} has no prerequisites in ${environment}; ` +
+                        "export flags with --summary 0 to include them (see get-all-flags)",
+                );
+            }
+            for (const prerequisite of config.prerequisites ?? []) {
+                graph.edges.push({
+                    flagKey: flag.key,
+                    prerequisiteKey: prerequisite.key,
+                    environment,
+                    variation: prerequisite.variation,
+                });
+            }
+        }
+    }
+    return graph;
+}
+
+function adjacency(graph: PrerequisiteGraph, reverse = false): Map<string, Set<string>> {
+    const adjacent = new Map<string, Set<string>>();
+    for (const edge of graph.edges) {
+        const [from, to] = reverse ? [edge.prerequisiteKey, edge.flagKey] : [edge.flagKey, edge.prerequisiteKey];
+        if (!adjacent.has(from)) adjacent.set(from, new Set());
+        adjacent.get(from)!.add(to);
+    }
+    return adjacent;
+}
+
+function graphKeys(graph: PrerequisiteGraph): string[] {
+    return [...new Set(graph.edges.flatMap((edge) => [edge.flagKey, edge.prerequisiteKey]))].sort();
+}
+
+/**
+ * Flags that depend on a flag directly or through other prerequisites, not including the flag itself
+ */
+export function getTransitiveDependents(graph: PrerequisiteGraph, flagKey: string): string[] {
+    const dependents = adjacency(graph, true);
+    const seen = new Set<string>([flagKey]);
+    const queue = [flagKey];
+    while (queue.length > 0) {
+        for (const dependent of dependents.get(queue.shift()!) ?? []) {
+            if (!seen.has(dependent)) {
+                seen.add(dependent);
+                queue.push(dependent);
+            }
+        }
+    }
+    seen.delete(flagKey);
+    return [...seen].sort();
+}
+
+/**
+ * Flags a flag requires directly or through other prerequisites, not including the flag itself
+ */
+export function getTransitivePrerequisites(graph: PrerequisiteGraph, flagKey: string): string[] {
+    const prerequisites = adjacency(graph);
+    const seen = new Set<string>([flagKey]);
+    const queue = [flagKey];
+    while (queue.length > 0) {
+        for (const prerequisite of prerequisites.get(queue.shift()!) ?? []) {
+            if (!seen.has(prerequisite)) {
+                seen.add(prerequisite);
+                queue.push(prerequisite);
+            }
+        }
+    }
+    seen.delete(flagKey);
+    return [...seen].sort();
+}
+
+/**
+ * Find prerequisite cycles (strongly connected components with more than one
+ * flag, or a flag that requires itself). LaunchDarkly rejects cycles, but an
+ * export taken mid-change or assembled by hand can contain them.
+ */
+export function findCycles(graph: PrerequisiteGraph): string[][] {
+    const prerequisites = adjacency(graph);
+    const index = new Map<string, number>();
+    const lowLink = new Map<string, number>();
+    const stack: string[] = [];
+    const onStack = new Set<string>();
+    const cycles: string[][] = [];
+
+    // Tarjan's algorithm
+    const visit = (key: string) => {
+        index.set(key, index.size);
+        lowLink.set(key, index.get(key)!);
+        stack.push(key);
+        onStack.add(key);
+
+        for (const next of prerequisites.get(key) ?? []) {
+            if (!index.has(next)) {
+                visit(next);
+                lowLink.set(key, Math.min(lowLink.get(key)!, lowLink.get(next)!));
+            } else if (onStack.has(next)) {
+                lowLink.set(key, Math.min(lowLink.get(key)!, index.get(next)!));
+            }
+        }
+
+        if (lowLink.get(key) === index.get(key)) {
+            const component: string[] = [];
+            let member: string;
+            do {
+                member = stack.pop()!;
+                onStack.delete(member);
+                component.push(member);
+            } while (member !== key);
+            if (component.length > 1 || prerequisites.get(key)?.has(key)) {
+                cycles.push(component.sort());
+            }
+        }
+    };
+
+    for (const key of graphKeys(graph)) {
+        if (!index.has(key)) visit(key);
+    }
+    return cycles;
+}
+
+/**
+ * Order flags so every flag comes after its prerequisites. Throws if the graph has a cycle.
+ */
+export function topologicalOrder(graph: PrerequisiteGraph, keys: string[] = graphKeys(graph)): string[] {
+    const included = new Set(keys);
+    const prerequisites = adjacency(graph);
+    const remaining = new Map<string, number>();
+    const dependents = new Map<string, string[]>();
+    for (const key of included) {
+        const inScope = [...prerequisites.get(key) ?? []].filter((prerequisite) => included.has(prerequisite));
+        remaining.set(key, inScope.length);
+        for (const prerequisite of inScope) {
+            dependents.set(prerequisite, [...dependents.get(prerequisite) ?? [], key]);
+        }
+    }
+
+    // Kahn's algorithm, taking flags in key order for a stable result
+    const ready = [...included].filter((key) => remaining.get(key) === 0).sort();
+    const order: string[] = [];
+    while (ready.length > 0) {
+        const key = ready.shift()!;
+        order.push(key);
+        for (const dependent of dependents.get(key) ?? []) {
+            remaining.set(dependent, remaining.get(dependent)! - 1);
+            if (remaining.get(dependent) === 0) {
+                ready.push(dependent);
+                ready.sort();
+            }
+        }
+    }
+
+    if (order.length < included.size) {
+        const cycle = [...included].filter((key) => !order.includes(key)).sort();
+        throw new Error(`Prerequisite cycle between ${cycle.join(", ")}`);
+    }
+    return order;
+}
+
+// The longest chain of prerequisites starting at each flag, ignoring edges that would close a cycle
+function longestChains(graph: PrerequisiteGraph): Map<string, string[]> {
+    const prerequisites = adjacency(graph);
+    const chains = new Map<string, string[]>();
+    const visiting = new Set<string>();
+
+    const chainFrom = (key: string): string[] => {
+        const known = chains.get(key);
+        if (known) return known;
+        visiting.add(key);
+        let longest: string[] = [];
+        for (const next of [...prerequisites.get(key) ?? []].sort()) {
+            if (visiting.has(next)) continue;
+            const chain = chainFrom(next);
+            if (chain.length > longest.length) longest = chain;
+        }
+        visiting.delete(key);
+        const chain = [key, ...longest];
+        chains.set(key, chain);
+        return chain;
+    };
+
+    for (const key of graphKeys(graph)) chainFrom(key);
+    return chains;
+}
+
+/**
+ * Prerequisites that can never be met or point at flags that are going away
+ */
+export function findIssues(graph: PrerequisiteGraph): PrerequisiteIssue[] {
+    const issues: PrerequisiteIssue[] = [];
+    for (const edge of graph.edges) {
+        const prerequisite = graph.flags.get(edge.prerequisiteKey);
+        const issue = (kind: IssueKind, description: string) =>
+            issues.push({
+                kind,
+                flagKey: edge.flagKey,
+                prerequisiteKey: edge.prerequisiteKey,
+                environment: edge.environment,
+                description,
+            });
+
+        if (!prerequisite) {
+            issue(
+                "missing-prerequisite",
+                `${edge.flagKey} requires ${edge.prerequisiteKey} in ${edge.environment}, which is not in the export (deleted or archived)`,
+            );
+        } else if (prerequisite.archived) {
+            issue(
+                "archived-prerequisite",
+                `${edge.flagKey} requires archived flag ${edge.prerequisiteKey} in ${edge.environment}`,
+            );
+        } else if (prerequisite.environments[edge.environment]?.on === false) {
+            // An off prerequisite serves its off variation, so the dependent never gets past it
+            issue(
+                "off-prerequisite",
+                `${edge.flagKey} requires ${edge.prerequisiteKey}, which is off in ${edge.environment}`,
+            );
+        }
+    }
+    return issues;
+}
+
+/**
+ * Summarize the graph: fan-in and fan-out, the longest chains, cycles and prerequisite issues
+ */
+export function analyzeGraph(graph: PrerequisiteGraph, options: { chains?: number } = {}): GraphReport {
+    const prerequisites = adjacency(graph);
+    const dependents = adjacency(graph, true);
+    const byCount = (adjacent: Map<string, Set<string>>) =>
+        [...adjacent.entries()]
+            .map(([key, keys]) => ({ key, count: keys.size }))
+            .sort((a, b) => b.count - a.count || a.key.localeCompare(b.key));
+
+    // Report chains from flags nothing depends on, longest first; single links aren't chains
+    const chains = [...longestChains(graph).values()]
+        .filter((chain) => chain.length > 2 && !dependents.has(chain[0]))
+        .sort((a, b) => b.length - a.length || a[0].localeCompare(b[0]))
+        .slice(0, options.chains ?? 10);
+
+    return {
+        flags: graphKeys(graph).length,
+        dependencies: [...prerequisites.values()].reduce((total, keys) => total + keys.size, 0),
+        environments: [...new Set(graph.edges.map((edge) => edge.environment))].sort(),
+        fanIn: byCount(dependents),
+        fanOut: byCount(prerequisites),
+        chains,
+        cycles: findCycles(graph),
+        issues: findIssues(graph),
+    };
+}
+
+/**
+ * Keep only the flags connected to one flag: its transitive prerequisites and dependents
+ */
+export function subgraph(graph: PrerequisiteGraph, flagKey: string): PrerequisiteGraph {
+    const keys = new Set([
+        flagKey,
+        ...getTransitivePrerequisites(graph, flagKey),
+        ...getTransitiveDependents(graph, flagKey),
+    ]);
+    return {
+        flags: graph.flags,
+        edges: graph.edges.filter((edge) => keys.has(edge.flagKey) && keys.has(edge.prerequisiteKey)),
+    };
+}
+
+// One link per flag and prerequisite, labelled with the environments it applies in
+function groupEdges(graph: PrerequisiteGraph): Array<{ flagKey: string; prerequisiteKey: string; environments: string[] }> {
+    const groups = new Map<string, { flagKey: string; prerequisiteKey: string; environments: string[] }>();
+    for (const edge of graph.edges) {
+        const id = JSON.stringify([edge.flagKey, edge.prerequisiteKey]);
+        if (!groups.has(id)) {
+            groups.set(id, { flagKey: edge.flagKey, prerequisiteKey: edge.prerequisiteKey, environments: [] });
+        }
+        groups.get(id)!.environments.push(edge.environment);
+    }
+    return [...groups.values()]
+        .map((group) => ({ ...group, environments: group.environments.sort() }))
+        .sort((a, b) => a.flagKey.localeCompare(b.flagKey) || a.prerequisiteKey.localeCompare(b.prerequisiteKey));
+}
+
+function environmentLabel(environments: string[], allEnvironments: string[]): string {
+    return environments.length === allEnvironments.length && allEnvironments.length > 1 ? "all" : environments.join(", ");
+}
+
+/**
+ * Render the graph in Graphviz DOT, with arrows from each flag to its prerequisites
+ */
+export function formatDot(graph: PrerequisiteGraph): string {
+    const quote = (value: string) => `"${value.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n")}"`;
+    const environments = [...new Set(graph.edges.map((edge) => edge.environment))].sort();
+    const problems = new Set(findIssues(graph).map((issue) => `${issue.flagKey}\n${issue.prerequisiteKey}`));
+
+    const lines = ["digraph prerequisites {", "    rankdir=LR;", "    node [shape=box, style=rounded];"];
+    for (const key of graphKeys(graph)) {
+        const flag = graph.flags.get(key);
+        const attributes = [`label=${quote(flag?.name && flag.name !== key ? `${flag.name}\n${key}` : key)}`];
+        if (!flag) attributes.push('style="rounded,dashed"', "color=red");
+        else if (flag.archived) attributes.push('style="rounded,dashed"', "color=gray");
+        lines.push(`    ${quote(key)} [${attributes.join(", ")}];`);
+    }
+    for (const edge of groupEdges(graph)) {
+        const attributes = [`label=${quote(environmentLabel(edge.environments, environments))}`];
+        if (problems.has(`${edge.flagKey}\n${edge.prerequisiteKey}`)) attributes.push("color=red");
+        lines.push(`    ${quote(edge.flagKey)} -> ${quote(edge.prerequisiteKey)} [${attributes.join(", ")}];`);
+    }
+    lines.push("}");
+    return lines.join("\n");
+}
+
+/**
+ * Render the graph as a Mermaid flowchart, with arrows from each flag to its prerequisites
+ */
+export function formatMermaid(graph: PrerequisiteGraph): string {
+    // Mermaid node IDs can't contain most punctuation, so number the flags and label them
+    const ids = new Map(graphKeys(graph).map((key, index) => [key, `f${index}`]));
+    const label = (value: string) => value.replace(/"/g, "#quot;");
+    const environments = [...new Set(graph.edges.map((edge) => edge.environment))].sort();
+
+    const lines = ["flowchart LR"];
+    const archived: string[] = [];
+    const missing: string[] = [];
+    for (const [key, id] of ids) {
+        const flag = graph.flags.get(key);
+        lines.push(`    ${id}["${label(key)}"]`);
+        if (!flag) missing.push(id);
+        else if (flag.archived) archived.push(id);
+    }
+    for (const edge of groupEdges(graph)) {
+        lines.push(
+            `    ${ids.get(edge.flagKey)} -->|${label(environmentLabel(edge.environments, environments))}| ${ids.get(edge.prerequisiteKey)}`,
+        );
+    }
+    if (archived.length > 0) {
+        lines.push("    classDef archived stroke-dasharray: 5 5,color:#888");
+        lines.push(`    class ${archived.join(",")} archived`);
+    }
+    if (missing.length > 0) {
+        lines.push("    classDef missing stroke:#d00,stroke-dasharray: 5 5");
+        lines.push(`    class ${missing.join(",")} missing`);
+    }
+    return lines.join("\n");
+}
+
+function plural(count: number, noun: string): string {
+    return `${count} ${noun}${count === 1 ? "" : "s"}`;
+}
+
+export function formatReport(report: GraphReport): string {
+    const lines: string[] = [];
+    lines.push("# Prerequisite graph");
+    lines.push("");
+    lines.push(
+        `${report.flags} flags, ${report.dependencies} prerequisite links` +
+            (report.environments.length > 0 ? ` in ${report.environments.join(", ")}` : ""),
+    );
+
+    const section = (title: string, items: string[], empty: string) => {
+        lines.push("");
+        lines.push(`## ${title}`);
+        lines.push("");
+        if (items.length === 0) {
+            lines.push(empty);
+        } else {
+            lines.push(...items.map((item) => `- ${item}`));
+        }
+    };
+
+    section("Cycles", report.cycles.map((cycle) => cycle.join(", ")), "None.");
+    section("Issues", report.issues.map((issue) => issue.description), "None.");
+    section("Longest chains", report.chains.map((chain) => chain.join(" → ")), "No chains longer than one prerequisite.");
+    section(
+        "Most depended on (fan-in)",
+        report.fanIn.slice(0, 10).map((degree) => `${degree.key}: ${plural(degree.count, "dependent flag")}`),
+        "None.",
+    );
+    section(
+        "Most prerequisites (fan-out)",
+        report.fanOut.slice(0, 10).map((degree) => `${degree.key}: ${plural(degree.count, "prerequisite")}`),
+        "None.",
+    );
+    return lines.join("\n");
+}
+
+export function formatGraph(graph: PrerequisiteGraph, format: GraphFormat): string {
+    switch (format) {
+        case "json":
+            return JSON.stringify(analyzeGraph(graph), null, 2);
+        case "dot":
+            return formatDot(graph);
+        case "mermaid":
+            return formatMermaid(graph);
+        default:
+            return formatReport(analyzeGraph(graph));
+    }
+}
+
+// Main execution
+if (import.meta.main) {
+    const usage = "Usage: prereq-graph.ts <snapshot.ndjson> [--env <keys>] [--flag <key>] [--format report|json|dot|mermaid]";
+    const formats: GraphFormat[] = ["report", "json", "dot", "mermaid"];
+
+    const positional: string[] = [];
+    let environments: string[] | undefined;
+    let flagKey: string | undefined;
+    let format: GraphFormat = "report";
+
+    for (let i = 0; i < Deno.args.length; i++) {
+        const arg = Deno.args[i];
+        if (!arg.startsWith("--")) {
+            positional.push(arg);
+            continue;
+        }
+
+        const value = Deno.args[i + 1];
+        try {
+            if (!value || value.startsWith("--")) {
+                throw new Error(`Missing value for ${arg}`);
+            }
+            switch (arg) {
+                case "--env":
+                    environments = value.split(",").map((key) => key.trim()).filter((key) => key);
+                    break;
+                case "--flag":
+                    flagKey = value;
+                    break;
+                case "--format":
+                    if (!formats.includes(value as GraphFormat)) {
+                        throw new Error(`--format must be one of: ${formats.join(", ")}`);
+                    }
+                    format = value as GraphFormat;
+                    break;
+                default:
+                    throw new Error(`Unknown argument ${arg}`);
+            }
+        } catch (error) {
+            console.error(`Error: ${(error as Error).message}`);
+            Deno.exit(1);
+        }
+        i++; // Skip the value in the next iteration
+    }
+
+    const [snapshotPath] = positional;
+    if (!snapshotPath) {
+        console.error("Error: Snapshot file argument is required");
+        console.error(usage);
+        Deno.exit(1);
+    }
+
+    try {
+        const flags: Flag[] = [];
+        for await (const flag of readFlagSnapshot(snapshotPath)) {
+            flags.push(flag);
+        }
+
+        let graph = buildGraph(flags, { environments });
+        if (flagKey) {
+            if (!graph.flags.has(flagKey)) {
+                throw new Error(`Flag ${flagKey} is not in the snapshot`);
+            }
+            graph = subgraph(graph, flagKey);
+        }
+
+        console.log(formatGraph(graph, format));
+    } catch (error) {
+        console.error(`Error: ${(error as Error).message}`);
+        Deno.exit(1);
+    }
+}
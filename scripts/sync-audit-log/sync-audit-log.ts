@@ -0,0 +1,266 @@
+#!/usr/bin/env -S deno run --allow-net --allow-env --allow-read --allow-write
+
+import {
+    getAllAuditLogEntries,
+    getAllAuditLogEntriesParallel,
+    sortAuditLogEntries,
+    toMilliseconds,
+} from "../get-all-audit-log-entries/get-all-audit-log-entries.ts";
+import { getApiKeyFromEnv, getBaseUrlFromEnv, normalizeBaseUrl } from "../ld-client/ld-client.ts";
+import { readNdjson } from "../output-format/output-format.ts";
+
+// How much of the archive to read at a time, from the end, when looking for the newest entries
+const TAIL_BYTES = 256 * 1024;
+
+export interface ArchiveState {
+    newestDate: number | null;   // Date of the newest entry in the archive
+    newestIds: string[];         // IDs of the entries that share the newest date
+    partialBytes: number;        // Length of an unterminated last line, left by an interrupted append
+}
+
+export interface SyncResult {
+    added: number;
+    newestDate: number | null;
+}
+
+/**
+ * Read audit log entries from an NDJSON archive (or any NDJSON export), optionally limited to a time range
+ */
+export async function* readAuditLogArchive(
+    filePath: string,
+    options?: { after?: number; before?: number },
+): AsyncGenerator<Record<string, unknown>> {
+    for await (const entry of readNdjson(filePath)) {
+        const date = entry.date as number;
+        if (
+            (options?.after === undefined || date >= options.after) &&
+            (options?.before === undefined || date <= options.before)
+        ) {
+            yield entry;
+        }
+    }
+}
+
+/**
+ * Read the lines of a file from the end, starting with whatever follows its last
+ * newline (empty unless the last line is unterminated)
+ */
+async function* readLinesBackward(file: Deno.FsFile, size: number): AsyncGenerator<Uint8Array> {
+    let position = size;
+    let rest = new Uint8Array(0);   // End of a line whose start hasn't been read yet
+    while (position > 0) {
+        const start = Math.max(0, position - TAIL_BYTES);
+        const bytes = new Uint8Array(position - start + rest.length);
+        await file.seek(start, Deno.SeekMode.Start);
+        let offset = 0;
+        while (offset < position - start) {
+            const read = await file.read(bytes.subarray(offset, position - start));
+            if (read === null) break;
+            offset += read;
+        }
+        bytes.set(rest, position - start);
+        position = start;
+
+        let lineEnd = bytes.length;
+        for (let i = bytes.length - 1; i >= 0; i--) {
+            if (bytes[i] === 0x0a) {
+                yield bytes.subarray(i + 1, lineEnd);
+                lineEnd = i;
+            }
+        }
+        rest = bytes.slice(0, lineEnd);
+    }
+    yield rest;
+}
+
+/**
+ * Find the newest date in the archive by reading it backwards from the end.
+ *
+ * The archive is appended oldest-first, so the newest entries are always at the
+ * end. A last line without a newline is what an interrupted append leaves behind,
+ * so it is skipped and its length reported rather than parsed.
+ */
+export async function getArchiveState(filePath: string): Promise<ArchiveState> {
+    let file: Deno.FsFile;
+    try {
+        file = await Deno.open(filePath, { read: true });
+    } catch (error) {
+        if (error instanceof Deno.errors.NotFound) {
+            return { newestDate: null, newestIds: [], partialBytes: 0 };
+        }
+        throw error;
+    }
+
+    try {
+        const { size } = await file.stat();
+        const decoder = new TextDecoder();
+
+        let partialBytes: number | undefined;
+        let newestDate: number | null = null;
+        const newestIds: string[] = [];
+        for await (const bytes of readLinesBackward(file, size)) {
+            if (partialBytes === undefined) {
+                partialBytes = bytes.length;
+                continue;
+            }
+            const line = decoder.decode(bytes);
+            if (!line.trim()) continue;
+            const entry = JSON.parse(line);
+            if (newestDate === null) {
+                newestDate = entry.date;
+            } else if (entry.date !== newestDate) {
+                break;
+            }
+            newestIds.push(entry._id);
+        }
+
+        return { newestDate, newestIds, partialBytes: partialBytes ?? 0 };
+    } finally {
+        file.close();
+    }
+}
+
+/**
+ * Fetch audit log entries newer than the newest one in the archive and append them oldest-first
+ */
+export async function syncAuditLog(
+    apiKey: string,
+    archivePath: string,
+    options?: {
+        after?: number;           // Lower bound for the first sync of an empty archive
+        parallelChunks?: number;
+        baseUrl?: string;
+    },
+): Promise<SyncResult> {
+    const state = await getArchiveState(archivePath);
+    if (state.partialBytes > 0) {
+        // Appending after it would corrupt the next entry too, and it is fetched again anyway
+        const { size } = await Deno.stat(archivePath);
+        console.error(
+            `Warning: Removing an incomplete last line (${state.partialBytes.toLocaleString()} bytes) from ${archivePath}`,
+        );
+        await Deno.truncate(archivePath, size - state.partialBytes);
+    }
+    const after = state.newestDate ?? options?.after ??
+        Date.now() - (30 * 24 * 60 * 60 * 1000);
+    const before = Date.now();
+
+    const source = options?.parallelChunks
+        ? getAllAuditLogEntriesParallel(apiKey, {
+            after,
+            before,
+            parallelChunks: options.parallelChunks,
+            baseUrl: options?.baseUrl,
+        })
+        : getAllAuditLogEntries(apiKey, { after, before, baseUrl: options?.baseUrl });
+
+    // Entries on the newest date may already be in the archive, since `after` is inclusive
+    const knownIds = new Set(state.newestIds);
+    const newEntries = async function* () {
+        for await (const entry of source) {
+            if (!knownIds.has(entry._id as string)) {
+                yield entry;
+            }
+        }
+    };
+
+    // Append oldest first so the archive stays in date order
+    const encoder = new TextEncoder();
+    let writer: WritableStreamDefaultWriter<Uint8Array> | undefined;
+    let added = 0;
+    let newestDate = state.newestDate;
+    try {
+        for await (const entry of sortAuditLogEntries(newEntries())) {
+            if (!writer) {
+                const file = await Deno.open(archivePath, { append: true, create: true });
+                writer = file.writable.getWriter();
+            }
+            await writer.write(encoder.encode(JSON.stringify(entry) + "\n"));
+            added++;
+            newestDate = entry.date as number;
+        }
+    } finally {
+        await writer?.close();
+    }
+
+    return { added, newestDate };
+}
+
+// Main execution
+if (import.meta.main) {
+    const API_KEY = getApiKeyFromEnv();
+    if (!API_KEY) {
+        console.error(
+            "Error: LAUNCHDARKLY_API_KEY or LD_API_KEY environment variable is required",
+        );
+        Deno.exit(1);
+    }
+
+    let baseUrl = getBaseUrlFromEnv();
+    let archivePath: string | undefined;
+    let after: number | undefined;
+    let parallelChunks: number | undefined;
+
+    for (let i = 0; i < Deno.args.length; i++) {
+        const arg = Deno.args[i];
+        if (!arg.startsWith("--")) {
+            archivePath = arg;
+            continue;
+        }
+
+        const value = Deno.args[i + 1];
+        if (!value || value.startsWith("--")) {
+            console.error(`Error: Missing value for ${arg}`);
+            Deno.exit(1);
+        }
+
+        switch (arg) {
+            case "--after":
+                try {
+                    after = toMilliseconds(value);
+                } catch (error) {
+                    console.error(`Error: ${(error as Error).message}`);
+                    Deno.exit(1);
+                }
+                break;
+            case "--parallel":
+                parallelChunks = parseInt(value);
+                if (isNaN(parallelChunks) || parallelChunks < 1) {
+                    console.error(`Error: --parallel must be a positive integer`);
+                    Deno.exit(1);
+                }
+                break;
+            case "--base-url":
+                baseUrl = normalizeBaseUrl(value);
+                break;
+            default:
+                console.error(`Error: Unknown argument ${arg}`);
+                Deno.exit(1);
+        }
+        i++; // Skip the value in the next iteration
+    }
+
+    if (!archivePath) {
+        console.error("Error: Archive file argument is required");
+        console.error("Usage: sync-audit-log.ts <archive.ndjson> [--after <date>] [--parallel <num>] [--base-url <url>]");
+        Deno.exit(1);
+    }
+
+    try {
+        const state = await getArchiveState(archivePath);
+        if (state.newestDate !== null) {
+            console.error(`Archive is up to date as of ${new Date(state.newestDate).toISOString()}, fetching newer entries...`);
+        } else {
+            console.error(`Archive is empty, fetching initial history...`);
+        }
+
+        const result = await syncAuditLog(API_KEY, archivePath, { after, parallelChunks, baseUrl });
+        console.error(
+            `Added ${result.added.toLocaleString()} entries` +
+                (result.newestDate !== null ? ` (newest: ${new Date(result.newestDate).toISOString()})` : ""),
+        );
+    } catch (error) {
+        console.error(`Error: ${(error as Error).message}`);
+        Deno.exit(1);
+    }
+}